@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+
+export const AI_PROVIDERS_SETTING = 'ai.providers';
+export const AI_TIMEOUT_SETTING = 'ai.timeoutSeconds';
+export const AI_SAMPLE_ROWS_SETTING = 'ai.sampleRows';
+export const AI_REPAIR_ATTEMPTS_SETTING = 'ai.repairAttempts';
+
+export type ProviderApi = 'openai' | 'gemini';
+
+/** One entry of the `flatFileReader.ai.providers` setting. */
+export interface AiProviderConfig {
+	id: string;
+	label: string;
+	// Request format: OpenAI chat completions (also Ollama, vLLM, LM Studio...) or Gemini
+	api: ProviderApi;
+	baseUrl: string;
+	models: string[];
+	// Extra request headers, e.g. for a gateway in front of the model
+	headers?: Record<string, string>;
+	// Overrides `flatFileReader.ai.timeoutSeconds`
+	timeoutSeconds?: number;
+	// Local servers usually need no key
+	requiresKey?: boolean;
+}
+
+export interface ChatMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+}
+
+export interface CompletionRequest {
+	model: string;
+	messages: ChatMessage[];
+	maxTokens?: number;
+	temperature?: number;
+}
+
+export type AiErrorKind = 'auth' | 'model' | 'connection' | 'timeout' | 'response';
+
+/** A failed completion, with a message meant for the user and what kind of failure it was. */
+export class AiError extends Error {
+	constructor(readonly kind: AiErrorKind, message: string) {
+		super(message);
+	}
+}
+
+export interface AiProvider {
+	readonly config: AiProviderConfig;
+	complete(request: CompletionRequest, apiKey?: string): Promise<string>;
+}
+
+export const DEFAULT_PROVIDERS: AiProviderConfig[] = [
+	{ id: 'gemini', label: 'Google Gemini (Free)', api: 'gemini', baseUrl: 'https://generativelanguage.googleapis.com/v1beta', models: ['gemini-2.5-flash', 'gemini-1.5-flash', 'gemini-1.5-pro'], requiresKey: true },
+	{ id: 'openai', label: 'OpenAI', api: 'openai', baseUrl: 'https://api.openai.com/v1', models: ['gpt-4o-mini', 'gpt-4o', 'gpt-3.5-turbo'], requiresKey: true }
+];
+
+/** The configured providers; entries with missing or unknown fields are skipped. */
+export function readProviderConfigs(): AiProviderConfig[] {
+	const configured = vscode.workspace.getConfiguration('flatFileReader').get<any[]>(AI_PROVIDERS_SETTING);
+	const entries = Array.isArray(configured) && configured.length > 0 ? configured : DEFAULT_PROVIDERS;
+	const providers: AiProviderConfig[] = [];
+	for (const entry of entries) {
+		if (typeof entry?.id !== 'string' || typeof entry?.baseUrl !== 'string' || (entry.api !== 'openai' && entry.api !== 'gemini')) {
+			console.warn('Ignoring AI provider with a missing id, baseUrl or api:', entry);
+			continue;
+		}
+		if (providers.some(p => p.id === entry.id)) continue;
+		providers.push({
+			id: entry.id,
+			label: typeof entry.label === 'string' ? entry.label : entry.id,
+			api: entry.api,
+			baseUrl: entry.baseUrl.replace(/\/+$/, ''),
+			models: Array.isArray(entry.models) ? entry.models.filter((m: unknown) => typeof m === 'string') : [],
+			headers: entry.headers && typeof entry.headers === 'object' ? entry.headers : undefined,
+			timeoutSeconds: typeof entry.timeoutSeconds === 'number' ? entry.timeoutSeconds : undefined,
+			requiresKey: entry.requiresKey !== false
+		});
+	}
+	return providers;
+}
+
+export function createProvider(config: AiProviderConfig): AiProvider {
+	return config.api === 'gemini' ? new GeminiProvider(config) : new OpenAiCompatibleProvider(config);
+}
+
+/** POSTs JSON, giving up after the provider's timeout, and maps HTTP failures to an AiError. */
+async function postJson(config: AiProviderConfig, url: string, headers: Record<string, string>, body: unknown): Promise<any> {
+	const timeoutSeconds = config.timeoutSeconds ?? vscode.workspace.getConfiguration('flatFileReader').get<number>(AI_TIMEOUT_SETTING, 60);
+	const controller = new AbortController();
+	const timer = timeoutSeconds > 0 ? setTimeout(() => controller.abort(), timeoutSeconds * 1000) : undefined;
+	let response: Response;
+	try {
+		response = await fetch(url, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', ...headers, ...config.headers },
+			body: JSON.stringify(body),
+			signal: controller.signal
+		});
+	} catch (err: any) {
+		if (controller.signal.aborted) {
+			throw new AiError('timeout', `${config.label} did not answer within ${timeoutSeconds} s.`);
+		}
+		throw new AiError('connection', `Unable to connect to ${config.label} at ${config.baseUrl}: ${err?.cause?.message ?? err?.message ?? err}`);
+	} finally {
+		clearTimeout(timer);
+	}
+
+	const text = await response.text();
+	let data: any;
+	try {
+		data = text ? JSON.parse(text) : {};
+	} catch {
+		data = undefined;
+	}
+	if (!response.ok) {
+		const detail: string = data?.error?.message ?? (typeof data?.error === 'string' ? data.error : '') ?? '';
+		if (response.status === 401 || response.status === 403 || /api key|api_key|unauthori[sz]ed/i.test(detail)) {
+			throw new AiError('auth', `${config.label} rejected the API key. Please check your key and try again.`);
+		}
+		if (response.status === 404 || /model/i.test(detail)) {
+			throw new AiError('model', `${config.label} does not know that model${detail ? `: ${detail}` : '. Please choose a valid model.'}`);
+		}
+		throw new AiError('response', `${config.label} returned HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+	}
+	if (data === undefined) {
+		throw new AiError('response', `${config.label} returned a response that is not JSON.`);
+	}
+	return data;
+}
+
+/** OpenAI chat completions, the format self-hosted servers such as Ollama and vLLM also speak. */
+class OpenAiCompatibleProvider implements AiProvider {
+	constructor(readonly config: AiProviderConfig) {}
+
+	async complete(request: CompletionRequest, apiKey?: string): Promise<string> {
+		const data = await postJson(this.config, `${this.config.baseUrl}/chat/completions`, apiKey ? { Authorization: `Bearer ${apiKey}` } : {}, {
+			model: request.model,
+			messages: request.messages,
+			max_tokens: request.maxTokens,
+			temperature: request.temperature
+		});
+		const content = data.choices?.[0]?.message?.content;
+		if (typeof content !== 'string' || !content.trim()) {
+			throw new AiError('response', `${this.config.label} returned no answer.`);
+		}
+		return content.trim();
+	}
+}
+
+class GeminiProvider implements AiProvider {
+	constructor(readonly config: AiProviderConfig) {}
+
+	async complete(request: CompletionRequest, apiKey?: string): Promise<string> {
+		const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+		const contents = request.messages
+			.filter(m => m.role !== 'system')
+			.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+		const data = await postJson(this.config, `${this.config.baseUrl}/models/${encodeURIComponent(request.model)}:generateContent`, apiKey ? { 'x-goog-api-key': apiKey } : {}, {
+			systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+			contents,
+			generationConfig: { temperature: request.temperature, maxOutputTokens: request.maxTokens }
+		});
+		const content = data.candidates?.[0]?.content?.parts?.map((part: any) => part.text ?? '').join('');
+		if (typeof content !== 'string' || !content.trim()) {
+			throw new AiError('response', `${this.config.label} returned no answer.`);
+		}
+		return content.trim();
+	}
+}
+
+/** API keys live in the editor's secret storage, one per provider id. */
+export class AiKeyStore {
+	constructor(private readonly secrets: vscode.SecretStorage) {}
+
+	get(providerId: string): Thenable<string | undefined> {
+		return this.secrets.get(this.key(providerId));
+	}
+
+	async set(providerId: string, apiKey: string): Promise<void> {
+		if (apiKey.trim()) {
+			await this.secrets.store(this.key(providerId), apiKey.trim());
+		} else {
+			await this.secrets.delete(this.key(providerId));
+		}
+	}
+
+	private key(providerId: string): string {
+		return `flatFileReader.ai.apiKey.${providerId}`;
+	}
+}
@@ -0,0 +1,103 @@
+import * as duckdb from 'duckdb';
+import { NUMERIC_TYPE, allAsync, quoteIdent } from './duckdbUtils';
+
+const BUCKETABLE_TYPE = /^(DATE|TIMESTAMP.*|VARCHAR)$/;
+const BUCKET_FORMATS: Record<DateBucket, string> = { day: '%Y-%m-%d', week: '%Y-%m-%d', month: '%Y-%m' };
+
+export type AggregateFunction = 'sum' | 'avg' | 'count' | 'min' | 'max' | 'countDistinct';
+
+export type DateBucket = 'day' | 'week' | 'month';
+
+export interface ChartMeasure {
+	// Omitted for a plain row count
+	column?: string;
+	fn: AggregateFunction;
+}
+
+export interface ChartSpec {
+	groupBy: string;
+	// Truncates the group-by column to the start of its day, week (Monday) or month
+	bucket?: DateBucket;
+	measures: ChartMeasure[];
+	// Keeps the groups with the largest first measure; 0 keeps every group
+	limit: number;
+}
+
+export interface ChartData {
+	// Name of the group key in each row, followed by one name per measure
+	key: string;
+	series: string[];
+	rows: Record<string, string | number | null>[];
+	// Number of groups before the limit was applied
+	groups: number;
+}
+
+/** How a measure is labelled in the legend, e.g. `sum(amount)` or `count(*)`. */
+export function measureLabel(measure: ChartMeasure): string {
+	if (!measure.column) return 'count(*)';
+	return measure.fn === 'countDistinct' ? `count(DISTINCT ${measure.column})` : `${measure.fn}(${measure.column})`;
+}
+
+const toNumber = (value: any): number | null => value === null || value === undefined ? null : Number(value);
+
+/**
+ * Groups the rows of `source` by one column and aggregates the measures per group. Top-N keeps
+ * the groups with the largest first measure; date buckets are then put back in time order.
+ */
+export async function aggregateQuery(con: duckdb.Connection, source: string, spec: ChartSpec): Promise<ChartData> {
+	const colRows = await allAsync(con, `DESCRIBE ${source}`);
+	const types = new Map<string, string>(colRows.map((row: any) => [String(row.column_name), String(row.column_type)]));
+	const typeOf = (column: string) => {
+		const type = types.get(column);
+		if (type === undefined) {
+			throw new Error(`Cannot chart unknown column "${column}".`);
+		}
+		return type;
+	};
+	if (spec.measures.length === 0) {
+		throw new Error('Choose at least one measure to chart.');
+	}
+
+	const groupType = typeOf(spec.groupBy);
+	let key = `CAST(${quoteIdent(spec.groupBy)} AS VARCHAR)`;
+	if (spec.bucket) {
+		if (!BUCKETABLE_TYPE.test(groupType)) {
+			throw new Error(`Cannot bucket "${spec.groupBy}" by ${spec.bucket}: it holds ${groupType} values, not dates.`);
+		}
+		// Text that does not read as a date falls into the null group instead of failing the chart
+		key = `strftime(date_trunc('${spec.bucket}', TRY_CAST(${quoteIdent(spec.groupBy)} AS TIMESTAMP)), '${BUCKET_FORMATS[spec.bucket]}')`;
+	}
+
+	const aggregates = spec.measures.map((measure, i) => {
+		if (!measure.column) return `count(*) AS m${i}`;
+		const ident = quoteIdent(measure.column);
+		if (measure.fn === 'count') return `count(${ident}) AS m${i}`;
+		if (measure.fn === 'countDistinct') return `count(DISTINCT ${ident}) AS m${i}`;
+		// Numbers stored as text are read the way the old client-side chart parsed them
+		const value = NUMERIC_TYPE.test(typeOf(measure.column)) ? ident : `TRY_CAST(${ident} AS DOUBLE)`;
+		return `${measure.fn}(${value}) AS m${i}`;
+	});
+
+	const limit = Math.max(0, Math.floor(spec.limit || 0));
+	const grouped = [
+		`SELECT ${key} AS group_key, ${aggregates.join(', ')}, count(*) OVER () AS group_count`,
+		`FROM (${source}) AS charted GROUP BY 1`,
+		spec.bucket && !limit ? 'ORDER BY 1 NULLS LAST' : 'ORDER BY m0 DESC NULLS LAST, 1 NULLS LAST',
+		limit ? `LIMIT ${limit}` : ''
+	].filter(Boolean).join(' ');
+	const query = spec.bucket && limit ? `SELECT * FROM (${grouped}) AS top_groups ORDER BY group_key NULLS LAST` : grouped;
+	const rows = await allAsync(con, query);
+
+	const keyName = spec.bucket ? `${spec.groupBy} (${spec.bucket})` : spec.groupBy;
+	const series = spec.measures.map(measureLabel);
+	return {
+		key: keyName,
+		series,
+		rows: rows.map((row: any) => {
+			const item: Record<string, string | number | null> = { [keyName]: row.group_key === null ? null : String(row.group_key) };
+			series.forEach((name, i) => { item[name] = toNumber(row[`m${i}`]); });
+			return item;
+		}),
+		groups: rows.length > 0 ? Number(rows[0].group_count) : 0
+	};
+}
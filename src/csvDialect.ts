@@ -0,0 +1,241 @@
+import * as fs from 'fs';
+import * as Papa from 'papaparse';
+
+export interface CsvDialect {
+	delimiter: string;
+	quote: string;
+	escape: string;
+	header: boolean;
+	skipRows: number;
+	// Lines starting with this prefix are ignored; empty when the file has no comments
+	comment: string;
+	nullStrings: string[];
+}
+
+const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_LINES = 200;
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|', ':'];
+const COMMENT_CANDIDATES = ['#', '//'];
+const NULL_CANDIDATES = ['NULL', 'null', 'NA', 'N/A', 'n/a', '\\N', 'NaN', 'nan', 'None', '#N/A'];
+
+export function defaultCsvDialect(delimiter: string): CsvDialect {
+	return { delimiter, quote: '"', escape: '"', header: true, skipRows: 0, comment: '', nullStrings: [] };
+}
+
+/** Sniffs delimiter, quoting, header, leading rows to skip, comments and null markers from the start of the file. */
+export function detectCsvDialect(filePath: string, fallbackDelimiter: string): CsvDialect {
+	const dialect = defaultCsvDialect(fallbackDelimiter);
+	const lines = readSampleLines(filePath);
+	const content = lines.filter(line => line.trim() !== '');
+	if (content.length === 0) return dialect;
+
+	dialect.quote = content.some(line => /(^|[,;\t|:])\s*'/.test(line)) && !content.some(line => line.includes('"')) ? "'" : '"';
+	dialect.delimiter = pickDelimiter(content, dialect.quote) ?? fallbackDelimiter;
+	dialect.escape = content.some(line => line.includes('\\' + dialect.quote)) ? '\\' : dialect.quote;
+
+	const width = modalWidth(content.map(line => splitLine(line, dialect.delimiter, dialect.quote)));
+	// A prefix only marks comments on lines that do not split like the data, so `#general,10` stays a row
+	dialect.comment = COMMENT_CANDIDATES.find(prefix => content.some(line => isCommentLine(line, prefix, dialect, width))) ?? '';
+	const isSkippable = (line: string) => line.trim() === '' || isCommentLine(line, dialect.comment, dialect, width);
+
+	// Title blocks above the data have a different field count than the body
+	let skipRows = 0;
+	let leading = 0;
+	while (leading < lines.length && leading < 20) {
+		const line = lines[leading];
+		if (isSkippable(line) || splitLine(line, dialect.delimiter, dialect.quote).length !== width) {
+			skipRows = leading + 1;
+			leading++;
+			continue;
+		}
+		break;
+	}
+	dialect.skipRows = skipRows;
+
+	const body = lines.slice(skipRows).filter(line => !isSkippable(line)).map(line => splitLine(line, dialect.delimiter, dialect.quote));
+	dialect.header = looksLikeHeader(body);
+
+	const seen = new Set<string>();
+	body.slice(dialect.header ? 1 : 0).forEach(row => row.forEach(field => {
+		if (NULL_CANDIDATES.includes(field.trim())) seen.add(field.trim());
+	}));
+	dialect.nullStrings = NULL_CANDIDATES.filter(token => seen.has(token));
+
+	return dialect;
+}
+
+/** Whether a line is a comment: it starts with the prefix and has a different field count than the data. */
+function isCommentLine(line: string, prefix: string, dialect: CsvDialect, width: number): boolean {
+	return prefix !== '' && line.trimStart().startsWith(prefix) && splitLine(line, dialect.delimiter, dialect.quote).length !== width;
+}
+
+/** Lines of a CSV file that are not rows, kept so a save can write them back where they were. */
+export interface CsvLayout {
+	// The skipped lines above the header
+	preamble: string[];
+	// Comment lines in the body, each placed before the data row with index `before`
+	comments: Array<{ before: number; line: string }>;
+	newline: string;
+}
+
+/** Reads the preamble and comment lines of a file the way an import with `dialect` skips them. */
+export function readCsvLayout(filePath: string, dialect: CsvDialect): CsvLayout {
+	const text = fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+	const newline = text.includes('\r\n') ? '\r\n' : '\n';
+	const lines = text.split(/\r?\n/);
+	const skip = Math.max(0, Math.floor(dialect.skipRows));
+	const layout: CsvLayout = { preamble: lines.slice(0, skip), comments: [], newline };
+
+	// Quoted fields may span lines, so the rest is split into records rather than lines
+	const records: string[] = [];
+	let current: string[] = [];
+	let inQuotes = false;
+	for (const line of lines.slice(skip)) {
+		current.push(line);
+		for (let i = 0; i < line.length; i++) {
+			if (inQuotes && line[i] === dialect.escape && dialect.escape !== dialect.quote) {
+				i++;
+			} else if (line[i] === dialect.quote) {
+				inQuotes = !inQuotes;
+			}
+		}
+		if (!inQuotes) {
+			records.push(current.join(newline));
+			current = [];
+		}
+	}
+	if (current.length > 0) records.push(current.join(newline));
+
+	const filled = records.filter(record => record.trim() !== '');
+	const first = dialect.header ? filled[0] : filled.find(record => !(dialect.comment && record.trimStart().startsWith(dialect.comment)));
+	const width = first === undefined ? 0 : splitLine(first, dialect.delimiter, dialect.quote).length;
+	let row = 0;
+	for (const record of filled.slice(dialect.header ? 1 : 0)) {
+		if (isCommentLine(record, dialect.comment, dialect, width)) {
+			layout.comments.push({ before: row, line: record });
+		} else {
+			row++;
+		}
+	}
+	return layout;
+}
+
+/** Writes rows as CSV; with a layout, the original preamble and comment lines go back where they were. */
+export function toCsv(columns: string[], rows: any[][], dialect: CsvDialect, layout?: CsvLayout): string {
+	const unparse = (data: any[][], header: boolean) => Papa.unparse({ fields: columns, data }, {
+		delimiter: dialect.delimiter,
+		quoteChar: dialect.quote,
+		escapeChar: dialect.escape,
+		header,
+		newline: layout?.newline
+	}).replace(/\r?\n$/, '');
+	if (!layout) return unparse(rows, dialect.header);
+
+	const parts = [...layout.preamble];
+	if (dialect.header) parts.push(unparse([], true));
+	let start = 0;
+	for (const comment of layout.comments) {
+		// Rows deleted since opening can leave a comment past the end; it then follows the last row
+		const end = Math.max(start, Math.min(comment.before, rows.length));
+		if (end > start) parts.push(unparse(rows.slice(start, end), false));
+		parts.push(comment.line);
+		start = end;
+	}
+	if (start < rows.length) parts.push(unparse(rows.slice(start), false));
+	return parts.join(layout.newline);
+}
+
+function readSampleLines(filePath: string): string[] {
+	const fd = fs.openSync(filePath, 'r');
+	try {
+		const buffer = Buffer.alloc(SAMPLE_BYTES);
+		const bytesRead = fs.readSync(fd, buffer, 0, SAMPLE_BYTES, 0);
+		const text = buffer.subarray(0, bytesRead).toString('utf-8').replace(/^\uFEFF/, '');
+		const lines = text.split(/\r?\n/);
+		// The last line is likely cut off when the sample did not reach the end of the file
+		if (bytesRead === SAMPLE_BYTES) lines.pop();
+		return lines.slice(0, SAMPLE_LINES);
+	} finally {
+		fs.closeSync(fd);
+	}
+}
+
+function splitLine(line: string, delimiter: string, quote: string): string[] {
+	const fields: string[] = [];
+	let current = '';
+	let inQuotes = false;
+	for (let i = 0; i < line.length; i++) {
+		const ch = line[i];
+		if (ch === quote) {
+			if (inQuotes && line[i + 1] === quote) {
+				current += ch;
+				i++;
+			} else {
+				inQuotes = !inQuotes;
+			}
+		} else if (ch === delimiter && !inQuotes) {
+			fields.push(current);
+			current = '';
+		} else {
+			current += ch;
+		}
+	}
+	fields.push(current);
+	return fields;
+}
+
+function modalWidth(rows: string[][]): number {
+	const counts = new Map<number, number>();
+	rows.forEach(row => counts.set(row.length, (counts.get(row.length) ?? 0) + 1));
+	let best = 1;
+	let bestCount = 0;
+	counts.forEach((count, width) => {
+		if (count > bestCount || (count === bestCount && width > best)) {
+			best = width;
+			bestCount = count;
+		}
+	});
+	return best;
+}
+
+function pickDelimiter(lines: string[], quote: string): string | undefined {
+	let best: string | undefined;
+	let bestScore = 0;
+	for (const candidate of DELIMITER_CANDIDATES) {
+		const rows = lines.map(line => splitLine(line, candidate, quote));
+		const width = modalWidth(rows);
+		if (width < 2) continue;
+		const consistency = rows.filter(row => row.length === width).length / rows.length;
+		const score = consistency * Math.log2(width + 1);
+		if (score > bestScore) {
+			best = candidate;
+			bestScore = score;
+		}
+	}
+	return best;
+}
+
+function isTyped(value: string): boolean {
+	const v = value.trim();
+	return /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(v) || /^\d{4}-\d{2}-\d{2}/.test(v) || /^(true|false)$/i.test(v);
+}
+
+/**
+ * Compares the first row with the body column by column: text above a column of numbers, dates or
+ * booleans means a header, while typed values above the same types mean the first row is data.
+ * Empty cells (such as an unnamed index column) and text-only columns say nothing either way.
+ */
+function looksLikeHeader(rows: string[][]): boolean {
+	if (rows.length < 2) return true;
+	const [first, ...body] = rows;
+	const isEmpty = (value: string | undefined) => value === undefined || value.trim() === '' || NULL_CANDIDATES.includes(value.trim());
+	let typedFirstRow = false;
+	for (let col = 0; col < first.length; col++) {
+		const values = body.map(row => row[col]).filter(value => !isEmpty(value));
+		if (values.length === 0 || !values.every(value => isTyped(value as string)) || isEmpty(first[col])) continue;
+		if (!isTyped(first[col])) return true;
+		typedFirstRow = true;
+	}
+	// All-text files default to having a header
+	return !typedFirstRow;
+}
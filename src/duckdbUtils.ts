@@ -0,0 +1,135 @@
+import * as duckdb from 'duckdb';
+
+const INSERT_BATCH_SIZE = 1000;
+
+/** Column types DuckDB reports for numbers, as given by DESCRIBE. */
+export const NUMERIC_TYPE = /^(U?(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT)|FLOAT|REAL|DOUBLE|DECIMAL(\(.*\))?)$/;
+
+export function runAsync(con: duckdb.Connection, sql: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		con.run(sql, (err: Error | null) => err ? reject(err) : resolve());
+	});
+}
+
+export function allAsync(con: duckdb.Connection, sql: string): Promise<any[]> {
+	return new Promise((resolve, reject) => {
+		con.all(sql, (err: Error | null, rows: any[]) => err ? reject(err) : resolve(rows));
+	});
+}
+
+export function sqlString(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+export function quoteIdent(name: string): string {
+	return `"${name.replace(/"/g, '""')}"`;
+}
+
+export async function relationExists(con: duckdb.Connection, name: string): Promise<boolean> {
+	const found = await allAsync(con, `SELECT 1 FROM information_schema.tables WHERE lower(table_name) = lower(${sqlString(name)})`);
+	return found.length > 0;
+}
+
+/** Drops a table or view by name; does nothing when it does not exist. */
+export async function dropRelation(con: duckdb.Connection, name: string): Promise<void> {
+	const found = await allAsync(con, `SELECT table_type FROM information_schema.tables WHERE table_name = ${sqlString(name)}`);
+	if (found.length === 0) return;
+	const kind = found[0].table_type === 'VIEW' ? 'VIEW' : 'TABLE';
+	await runAsync(con, `DROP ${kind} ${quoteIdent(name)}`);
+}
+
+/** DuckDB tables need at least one column, so empty sources get a single empty one. */
+export async function createEmptyTable(con: duckdb.Connection, table: string): Promise<void> {
+	await runAsync(con, `CREATE OR REPLACE TABLE ${quoteIdent(table)} (column1 VARCHAR)`);
+}
+
+export async function createVarcharTable(con: duckdb.Connection, table: string, columns: string[], dataRows: any[][]): Promise<void> {
+	const createTableQuery = `CREATE OR REPLACE TABLE ${quoteIdent(table)} (${columns.map(col => `${quoteIdent(col)} VARCHAR`).join(', ')})`;
+	try {
+		await runAsync(con, createTableQuery);
+	} catch (err) {
+		console.error('DuckDB create table error:', err);
+		throw err;
+	}
+
+	// Insert in batches so large sheets don't build one enormous statement
+	for (let start = 0; start < dataRows.length; start += INSERT_BATCH_SIZE) {
+		const batch = dataRows.slice(start, start + INSERT_BATCH_SIZE);
+		const insertQuery = `INSERT INTO ${quoteIdent(table)} VALUES ${batch.map(row => `(${columns.map((_, i) => row[i] == null || row[i] === '' ? 'NULL' : sqlString(String(row[i]))).join(', ')})`).join(', ')}`;
+		try {
+			await runAsync(con, insertQuery);
+		} catch (err) {
+			console.error('DuckDB insert error:', err);
+			throw err;
+		}
+	}
+}
+
+/**
+ * Loads rows through a VARCHAR staging table and casts each column to its type.
+ * Values that don't fit the type become NULL rather than failing the import.
+ */
+export async function createTypedTable(con: duckdb.Connection, table: string, columns: string[], types: string[], dataRows: any[][]): Promise<void> {
+	const staging = `${table}__staging`;
+	await createVarcharTable(con, staging, columns, dataRows);
+	const casts = columns.map((col, i) => {
+		const type = types[i] ?? 'VARCHAR';
+		return type === 'VARCHAR' ? quoteIdent(col) : `TRY_CAST(${quoteIdent(col)} AS ${type}) AS ${quoteIdent(col)}`;
+	});
+	try {
+		await runAsync(con, `CREATE OR REPLACE TABLE ${quoteIdent(table)} AS SELECT ${casts.join(', ')} FROM ${quoteIdent(staging)}`);
+	} finally {
+		await runAsync(con, `DROP TABLE IF EXISTS ${quoteIdent(staging)}`);
+	}
+}
+
+/** Runs a statement with its `?` placeholders bound to `params`, which keep their JavaScript types. */
+export function runPreparedAsync(con: duckdb.Connection, sql: string, params: any[]): Promise<void> {
+	return new Promise((resolve, reject) => {
+		con.run(sql, ...params, (err: Error | null) => err ? reject(err) : resolve());
+	});
+}
+
+const NESTED_TYPE = /^(STRUCT|MAP|UNION)\(|\]$/;
+
+// Nested values arrive as objects or arrays; edited cells arrive as text in DuckDB's own syntax
+const jsonText = (value: any) => JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v);
+
+/** Converts a value read back from DuckDB into one the driver binds without losing its type. */
+function toParam(value: any, type: string): any {
+	if (value === undefined || value === '') return null;
+	// The driver binds BigInt as NULL and dates as UTC timestamps, which a TIMESTAMPTZ would shift
+	if (typeof value === 'bigint') return value.toString();
+	if (value instanceof Date) return type === 'TIMESTAMP WITH TIME ZONE' ? value.toISOString() : value;
+	if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) {
+		if ('months' in value && 'days' in value && 'micros' in value) {
+			return `${value.months} months ${value.days} days ${value.micros} microseconds`;
+		}
+		return jsonText(value);
+	}
+	return value;
+}
+
+/**
+ * Creates `table` with the given column types and inserts rows of values as read back from
+ * DuckDB. Values are bound to prepared inserts, so blobs, nested values and time zone aware
+ * timestamps survive; values that don't fit their column become NULL.
+ */
+export async function createTableFromValues(con: duckdb.Connection, table: string, columns: string[], types: string[], dataRows: any[][]): Promise<void> {
+	const typeOf = (i: number) => types[i] ?? 'VARCHAR';
+	await runAsync(con, `CREATE OR REPLACE TABLE ${quoteIdent(table)} (${columns.map((col, i) => `${quoteIdent(col)} ${typeOf(i)}`).join(', ')})`);
+	// Nested columns take two placeholders: one for JSON from an object, one for edited text
+	const placeholders = columns.map((_, i) => NESTED_TYPE.test(typeOf(i))
+		? `COALESCE(TRY_CAST(TRY_CAST(? AS JSON) AS ${typeOf(i)}), TRY_CAST(? AS ${typeOf(i)}))`
+		: `TRY_CAST(? AS ${typeOf(i)})`);
+	const rowSql = `(${placeholders.join(', ')})`;
+	const bind = (row: any[]) => columns.flatMap((_, i) => {
+		const value = row[i];
+		if (!NESTED_TYPE.test(typeOf(i))) return [toParam(value, typeOf(i))];
+		return value !== null && typeof value === 'object' ? [jsonText(value), null] : [null, toParam(value, typeOf(i))];
+	});
+	for (let start = 0; start < dataRows.length; start += INSERT_BATCH_SIZE) {
+		const batch = dataRows.slice(start, start + INSERT_BATCH_SIZE);
+		await runPreparedAsync(con, `INSERT INTO ${quoteIdent(table)} VALUES ${batch.map(() => rowSql).join(', ')}`, batch.flatMap(bind));
+	}
+}
@@ -0,0 +1,248 @@
+import * as duckdb from 'duckdb';
+import * as ExcelJS from 'exceljs';
+import { createEmptyTable, createTypedTable, quoteIdent, runAsync } from './duckdbUtils';
+import { ColumnTypeOverrides, inferColumnTypes, toSqlText } from './typeInference';
+
+export interface SheetOptions {
+	// 1-based row holding the column names; defaults to the first row of the range
+	headerRow?: number;
+	// A1-style range such as "B3:H120"; the whole used area when empty
+	range?: string;
+}
+
+export interface ExcelOptions {
+	activeSheet?: string;
+	sheets?: Record<string, SheetOptions>;
+}
+
+export interface SheetInfo {
+	name: string;
+	table: string;
+	headerRow: number;
+	range: string;
+	rowCount: number;
+}
+
+interface CellRange {
+	top: number;
+	left: number;
+	bottom: number;
+	right: number;
+}
+
+/** Imports every worksheet as its own table and points the `data` view at the active one. */
+export async function importWorkbook(con: duckdb.Connection, filePath: string, options: ExcelOptions, columnTypes: ColumnTypeOverrides = {}): Promise<SheetInfo[]> {
+	const workbook = new ExcelJS.Workbook();
+	await workbook.xlsx.readFile(filePath);
+
+	const usedNames = new Set<string>(['data']);
+	const sheets: SheetInfo[] = [];
+	for (const worksheet of workbook.worksheets) {
+		const table = uniqueTableName(worksheet.name, usedNames);
+		sheets.push(await importSheet(con, worksheet, table, options.sheets?.[worksheet.name] ?? {}, columnTypes[table] ?? {}));
+	}
+
+	if (sheets.length === 0) {
+		await createEmptyTable(con, 'data');
+		return sheets;
+	}
+
+	const active = sheets.find(sheet => sheet.name === options.activeSheet) ?? sheets[0];
+	options.activeSheet = active.name;
+	await runAsync(con, `CREATE OR REPLACE VIEW data AS SELECT * FROM ${quoteIdent(active.table)}`);
+	return sheets;
+}
+
+/** Imports one worksheet, the first unless named, into `table`; used for attached workbooks. */
+export async function importSheetTable(con: duckdb.Connection, filePath: string, table: string, sheetName?: string): Promise<SheetInfo> {
+	const workbook = new ExcelJS.Workbook();
+	await workbook.xlsx.readFile(filePath);
+	const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+	if (!worksheet) {
+		throw new Error(sheetName ? `Sheet "${sheetName}" was not found in the workbook.` : 'The workbook has no worksheets.');
+	}
+	return importSheet(con, worksheet, table, {}, {});
+}
+
+/** Re-reads a single worksheet, e.g. after its header row or range changed. */
+export async function reimportSheet(con: duckdb.Connection, filePath: string, sheet: SheetInfo, options: SheetOptions, columnTypes: Record<string, string> = {}): Promise<SheetInfo> {
+	const workbook = new ExcelJS.Workbook();
+	await workbook.xlsx.readFile(filePath);
+	const worksheet = workbook.getWorksheet(sheet.name);
+	if (!worksheet) {
+		throw new Error(`Sheet "${sheet.name}" no longer exists in the workbook.`);
+	}
+	return importSheet(con, worksheet, sheet.table, options, columnTypes);
+}
+
+async function importSheet(con: duckdb.Connection, worksheet: ExcelJS.Worksheet, table: string, options: SheetOptions, columnTypes: Record<string, string>): Promise<SheetInfo> {
+	const bounds = parseRange(options.range) ?? usedRange(worksheet);
+	const headerRow = Math.max(bounds.top, options.headerRow ?? bounds.top);
+	const info: SheetInfo = { name: worksheet.name, table, headerRow, range: formatRange(bounds), rowCount: 0 };
+
+	if (bounds.bottom < headerRow || bounds.right < bounds.left) {
+		await createEmptyTable(con, table);
+		return info;
+	}
+
+	const readRow = (rowNumber: number): any[] => {
+		const row = worksheet.getRow(rowNumber);
+		const values: any[] = [];
+		for (let col = bounds.left; col <= bounds.right; col++) {
+			values.push(cellValue(row.getCell(col).value));
+		}
+		return values;
+	};
+
+	const rows: any[][] = [];
+	for (let r = headerRow + 1; r <= bounds.bottom; r++) {
+		const values = readRow(r);
+		if (values.some(v => v !== null && v !== '')) rows.push(values);
+	}
+
+	const header = readRow(headerRow);
+	const used = new Set<string>();
+	const columns = header.map((value, i) => {
+		// Header text is kept as written; only empty and repeated headers get generated names
+		const base = value === null || value === '' ? `column${bounds.left + i}` : toSqlText(value) as string;
+		let name = base;
+		for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}_${n}`;
+		used.add(name.toLowerCase());
+		return name;
+	});
+
+	// ExcelJS already types numbers, dates, booleans and formula results; text cells stay text
+	const types = inferColumnTypes(rows, columns.length, false).map((type, i) => columnTypes[columns[i]] ?? type);
+	await createTypedTable(con, table, columns, types, rows.map(row => row.map(toSqlText)));
+	info.rowCount = rows.length;
+	return info;
+}
+
+/**
+ * Writes edited rows back into one sheet of the workbook at `sourcePath`. `origins` gives the
+ * imported row index behind each edited row (null for added rows); deleted and added rows are
+ * spliced out of and into the sheet so the rows around them keep their formulas and styles.
+ * Only cells whose value changed are assigned, so column widths and the other sheets are kept.
+ */
+export async function writeSheetValues(sourcePath: string, sheet: SheetInfo, types: string[], rows: any[][], origins: Array<number | null>): Promise<ExcelJS.Buffer> {
+	const workbook = new ExcelJS.Workbook();
+	await workbook.xlsx.readFile(sourcePath);
+	const worksheet = workbook.getWorksheet(sheet.name);
+	if (!worksheet) {
+		throw new Error(`Sheet "${sheet.name}" no longer exists in the workbook.`);
+	}
+
+	// Blank rows were skipped on import, so find the sheet row behind each table row the same way
+	const bounds = parseRange(sheet.range) ?? usedRange(worksheet);
+	const rowNumbers: number[] = [];
+	for (let r = sheet.headerRow + 1; r <= bounds.bottom; r++) {
+		const row = worksheet.getRow(r);
+		for (let col = bounds.left; col <= bounds.left + types.length - 1; col++) {
+			const value = cellValue(row.getCell(col).value);
+			if (value !== null && value !== '') {
+				rowNumbers.push(r);
+				break;
+			}
+		}
+	}
+
+	// Deleted rows go first, from the bottom up so the row numbers above stay valid
+	const kept = new Set(origins.filter((origin): origin is number => origin !== null && origin < rowNumbers.length));
+	const deleted = rowNumbers.filter((_, i) => !kept.has(i));
+	[...deleted].reverse().forEach(rowNumber => worksheet.spliceRows(rowNumber, 1));
+	const shifted = rowNumbers.map(rowNumber => rowNumber - deleted.filter(d => d < rowNumber).length);
+
+	// Then each added row is inserted below the row before it, pushing the rest of the sheet down
+	const targets: number[] = [];
+	let inserted = 0;
+	origins.forEach((origin, i) => {
+		if (origin !== null && origin < rowNumbers.length) {
+			targets.push(shifted[origin] + inserted);
+			return;
+		}
+		const target = i === 0 ? sheet.headerRow + 1 : targets[i - 1] + 1;
+		worksheet.spliceRows(target, 0, []);
+		inserted++;
+		targets.push(target);
+	});
+
+	targets.forEach((rowNumber, i) => {
+		const row = worksheet.getRow(rowNumber);
+		types.forEach((type, c) => {
+			const cell = row.getCell(bounds.left + c);
+			const next = toCellValue(rows[i][c], type);
+			if (toSqlText(cellValue(cell.value)) !== toSqlText(next)) {
+				cell.value = next;
+			}
+		});
+	});
+	return workbook.xlsx.writeBuffer();
+}
+
+/** Converts an edited value, which may be text, back to what ExcelJS stores for the column type. */
+function toCellValue(value: any, type: string): ExcelJS.CellValue {
+	if (value === null || value === undefined || value === '') return null;
+	if (typeof value === 'bigint') return Number(value);
+	if (typeof value !== 'string') return value;
+	if ((type === 'BIGINT' || type === 'DOUBLE') && Number.isFinite(Number(value))) return Number(value);
+	if (type === 'BOOLEAN' && /^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+	if (type === 'DATE' || type === 'TIMESTAMP') {
+		// Dates were read as UTC, so edited ones are written back the same way
+		const iso = value.includes(' ') || value.includes('T') ? value.replace(' ', 'T') : `${value}T00:00:00`;
+		const date = new Date(/([zZ]|[+-]\d{2}:?\d{2})$/.test(iso) ? iso : `${iso}Z`);
+		if (!Number.isNaN(date.getTime())) return date;
+	}
+	return value;
+}
+
+/** Unwraps formulas, rich text, hyperlinks and errors to the value the cell displays. */
+export function cellValue(value: ExcelJS.CellValue): any {
+	if (value === null || value === undefined) return null;
+	if (value instanceof Date) return value;
+	if (typeof value !== 'object') return value;
+	const v = value as any;
+	if ('result' in v || 'formula' in v || 'sharedFormula' in v) return v.result === undefined ? null : cellValue(v.result);
+	if (Array.isArray(v.richText)) return v.richText.map((part: any) => part.text).join('');
+	if ('text' in v) return typeof v.text === 'string' ? v.text : cellValue(v.text);
+	if ('error' in v) return null;
+	return String(value);
+}
+
+function uniqueTableName(sheetName: string, used: Set<string>): string {
+	let name = sheetName;
+	for (let n = 2; used.has(name.toLowerCase()); n++) name = `${sheetName}_${n}`;
+	used.add(name.toLowerCase());
+	return name;
+}
+
+function usedRange(worksheet: ExcelJS.Worksheet): CellRange {
+	return { top: 1, left: 1, bottom: worksheet.rowCount, right: worksheet.columnCount };
+}
+
+function columnNumber(letters: string): number {
+	return letters.toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0);
+}
+
+function columnLetters(n: number): string {
+	let letters = '';
+	for (let rest = n; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+		letters = String.fromCharCode(65 + ((rest - 1) % 26)) + letters;
+	}
+	return letters;
+}
+
+function parseRange(range?: string): CellRange | undefined {
+	const match = range?.trim().match(/^\$?([A-Za-z]{1,3})\$?(\d+):\$?([A-Za-z]{1,3})\$?(\d+)$/);
+	if (!match) {
+		if (range && range.trim()) throw new Error(`Invalid cell range "${range}". Use the A1:D20 form.`);
+		return undefined;
+	}
+	const [a, b] = [columnNumber(match[1]), columnNumber(match[3])];
+	const [r1, r2] = [parseInt(match[2], 10), parseInt(match[4], 10)];
+	return { top: Math.min(r1, r2), left: Math.min(a, b), bottom: Math.max(r1, r2), right: Math.max(a, b) };
+}
+
+function formatRange(range: CellRange): string {
+	if (range.bottom < range.top || range.right < range.left) return '';
+	return `${columnLetters(range.left)}${range.top}:${columnLetters(range.right)}${range.bottom}`;
+}
@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as duckdb from 'duckdb';
+import * as ExcelJS from 'exceljs';
+import { allAsync, quoteIdent, runAsync, sqlString } from './duckdbUtils';
+
+export type ExportFormat = 'csv' | 'parquet' | 'xlsx' | 'json' | 'ndjson' | 'markdown' | 'sql';
+export type ParquetCompression = 'snappy' | 'zstd' | 'gzip' | 'uncompressed';
+
+export interface ExportOptions {
+	format: ExportFormat;
+	// Parquet
+	compression?: ParquetCompression;
+	kvMetadata?: Record<string, string>;
+	// XLSX
+	sheetName?: string;
+	// JSON: indented array instead of a compact one
+	pretty?: boolean;
+	// SQL INSERT scripts
+	tableName?: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extensions: string[] }> = {
+	csv: { label: 'CSV', extensions: ['csv'] },
+	parquet: { label: 'Parquet', extensions: ['parquet'] },
+	xlsx: { label: 'Excel', extensions: ['xlsx'] },
+	json: { label: 'JSON', extensions: ['json'] },
+	ndjson: { label: 'JSON Lines', extensions: ['jsonl', 'ndjson'] },
+	markdown: { label: 'Markdown', extensions: ['md'] },
+	sql: { label: 'SQL', extensions: ['sql'] }
+};
+
+export const PARQUET_COMPRESSIONS: ParquetCompression[] = ['snappy', 'zstd', 'gzip', 'uncompressed'];
+// Rows handed to the writer at a time for the formats DuckDB cannot write itself
+const BATCH_SIZE = 5000;
+
+/**
+ * Writes the rows of `source` to `outPath`. CSV, Parquet and compact JSON are written
+ * by DuckDB directly; the other formats are streamed to disk one batch of rows at a time.
+ */
+export async function exportQuery(con: duckdb.Connection, source: string, outPath: string, options: ExportOptions): Promise<void> {
+	const target = sqlString(path.resolve(outPath).replace(/\\/g, '/'));
+	switch (options.format) {
+		case 'csv':
+			await runAsync(con, `COPY (${source}) TO ${target} (FORMAT CSV, HEADER true)`);
+			return;
+		case 'parquet': {
+			const compression = PARQUET_COMPRESSIONS.includes(options.compression as ParquetCompression) ? options.compression : 'snappy';
+			const copyOptions = ['FORMAT PARQUET', `COMPRESSION ${sqlString(compression as string)}`];
+			const metadata = Object.entries(options.kvMetadata ?? {});
+			if (metadata.length > 0) {
+				copyOptions.push(`KV_METADATA {${metadata.map(([key, value]) => `${sqlString(key)}: ${sqlString(value)}`).join(', ')}}`);
+			}
+			await runAsync(con, `COPY (${source}) TO ${target} (${copyOptions.join(', ')})`);
+			return;
+		}
+		case 'ndjson':
+			await runAsync(con, `COPY (${source}) TO ${target} (FORMAT JSON)`);
+			return;
+		case 'json':
+			if (!options.pretty) {
+				await runAsync(con, `COPY (${source}) TO ${target} (FORMAT JSON, ARRAY true)`);
+				return;
+			}
+			await writePrettyJson(con, source, outPath);
+			return;
+		case 'xlsx':
+			await writeXlsx(con, source, outPath, options.sheetName?.trim() || 'Sheet1');
+			return;
+		case 'markdown':
+			await writeMarkdown(con, source, outPath);
+			return;
+		case 'sql':
+			await writeInserts(con, source, outPath, options.tableName?.trim() || 'data');
+			return;
+		default:
+			throw new Error(`Unsupported export format "${options.format}".`);
+	}
+}
+
+/**
+ * Calls `onBatch` with successive batches of rows streamed from a single run of the query,
+ * so the full result is never held in memory and every row is seen exactly once. Nothing else
+ * may run on `con` until it returns, as another query would end the stream.
+ */
+async function forEachBatch(con: duckdb.Connection, source: string, onBatch: (columns: string[], rows: any[][]) => Promise<void>): Promise<void> {
+	const colRows = await allAsync(con, `DESCRIBE ${source}`);
+	const columns: string[] = colRows.map((row: any) => String(row.column_name));
+	let batch: any[][] = [];
+	let sent = false;
+	for await (const row of con.stream(source)) {
+		batch.push(columns.map(col => row[col]));
+		if (batch.length === BATCH_SIZE) {
+			await onBatch(columns, batch);
+			batch = [];
+			sent = true;
+		}
+	}
+	// An empty result still gets one call so the writers emit their header
+	if (batch.length > 0 || !sent) {
+		await onBatch(columns, batch);
+	}
+}
+
+/** Writes chunks to a file stream, waiting for it to drain when its buffer is full. */
+class FileWriter {
+	private readonly stream: fs.WriteStream;
+	private failure: Error | null = null;
+
+	constructor(filePath: string) {
+		this.stream = fs.createWriteStream(filePath, { encoding: 'utf-8' });
+		this.stream.on('error', (err) => { this.failure = err; });
+	}
+
+	async write(chunk: string): Promise<void> {
+		if (this.failure) throw this.failure;
+		if (!this.stream.write(chunk)) {
+			await new Promise<void>((resolve, reject) => {
+				this.stream.once('drain', resolve);
+				this.stream.once('error', reject);
+			});
+		}
+	}
+
+	close(): Promise<void> {
+		return new Promise((resolve, reject) => {
+			if (this.failure) return reject(this.failure);
+			this.stream.end(() => this.failure ? reject(this.failure) : resolve());
+		});
+	}
+}
+
+const jsonValue = (value: any): any => typeof value === 'bigint' ? (Number.isSafeInteger(Number(value)) ? Number(value) : value.toString()) : value;
+
+async function writePrettyJson(con: duckdb.Connection, source: string, outPath: string): Promise<void> {
+	const writer = new FileWriter(outPath);
+	let first = true;
+	try {
+		await writer.write('[');
+		await forEachBatch(con, source, async (columns, rows) => {
+			const chunk = rows.map(row => {
+				const obj: Record<string, any> = {};
+				columns.forEach((col, i) => { obj[col] = jsonValue(row[i]); });
+				const text = JSON.stringify(obj, (_key, value) => jsonValue(value), 2).replace(/\n/g, '\n  ');
+				const prefix = first ? '\n  ' : ',\n  ';
+				first = false;
+				return prefix + text;
+			}).join('');
+			await writer.write(chunk);
+		});
+		await writer.write(first ? ']\n' : '\n]\n');
+	} finally {
+		await writer.close();
+	}
+}
+
+function xlsxValue(value: any): any {
+	if (value === null || value === undefined) return null;
+	if (typeof value === 'bigint') return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+	if (value instanceof Date || typeof value !== 'object') return value;
+	return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? v.toString() : v);
+}
+
+async function writeXlsx(con: duckdb.Connection, source: string, outPath: string, sheetName: string): Promise<void> {
+	const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ filename: outPath, useStyles: false, useSharedStrings: false });
+	// Excel limits sheet names to 31 characters and forbids a few symbols
+	const worksheet = workbook.addWorksheet(sheetName.replace(/[\\/?*[\]:]/g, '_').slice(0, 31));
+	let wroteHeader = false;
+	await forEachBatch(con, source, async (columns, rows) => {
+		if (!wroteHeader) {
+			worksheet.addRow(columns).commit();
+			wroteHeader = true;
+		}
+		rows.forEach(row => worksheet.addRow(row.map(xlsxValue)).commit());
+	});
+	worksheet.commit();
+	await workbook.commit();
+}
+
+function displayText(value: any): string {
+	if (value === null || value === undefined) return '';
+	if (value instanceof Date) return value.toISOString();
+	if (typeof value === 'object') return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? v.toString() : v);
+	return String(value);
+}
+
+const markdownCell = (value: any): string => displayText(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+async function writeMarkdown(con: duckdb.Connection, source: string, outPath: string): Promise<void> {
+	const writer = new FileWriter(outPath);
+	let wroteHeader = false;
+	try {
+		await forEachBatch(con, source, async (columns, rows) => {
+			let chunk = '';
+			if (!wroteHeader) {
+				chunk += `| ${columns.map(markdownCell).join(' | ')} |\n`;
+				chunk += `| ${columns.map(() => '---').join(' | ')} |\n`;
+				wroteHeader = true;
+			}
+			chunk += rows.map(row => `| ${row.map(markdownCell).join(' | ')} |\n`).join('');
+			await writer.write(chunk);
+		});
+	} finally {
+		await writer.close();
+	}
+}
+
+function sqlLiteral(value: any): string {
+	if (value === null || value === undefined) return 'NULL';
+	if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+	if (typeof value === 'bigint') return value.toString();
+	if (typeof value === 'number') return Number.isFinite(value) ? String(value) : `'${value}'`;
+	return sqlString(displayText(value));
+}
+
+async function writeInserts(con: duckdb.Connection, source: string, outPath: string, tableName: string): Promise<void> {
+	const writer = new FileWriter(outPath);
+	// A dotted name such as schema.table is quoted part by part
+	const table = tableName.split('.').map(quoteIdent).join('.');
+	try {
+		await forEachBatch(con, source, async (columns, rows) => {
+			const columnList = columns.map(quoteIdent).join(', ');
+			await writer.write(rows.map(row => `INSERT INTO ${table} (${columnList}) VALUES (${row.map(sqlLiteral).join(', ')});\n`).join(''));
+		});
+	} finally {
+		await writer.close();
+	}
+}
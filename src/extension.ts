@@ -1,8 +1,18 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { loadFileData, exportData } from './fileLoader';
-import * as Papa from 'papaparse';
+import { FileSession, PageData, TableInfo, exportData } from './fileLoader';
+import { CsvDialect, CsvLayout, defaultCsvDialect, readCsvLayout, toCsv } from './csvDialect';
+import { SheetOptions, writeSheetValues } from './excelImport';
+import { EXPORT_FORMATS, ExportOptions } from './exporters';
+import { ColumnFilter } from './filters';
+import { SortKey } from './sorting';
+import { CANCEL_QUERY_COMMAND, QueryCancelledError, QueryStatus } from './queryStatus';
+import { isQueryStatement, splitStatements } from './sqlScript';
+import { formatSql } from './sqlFormat';
+import { SavedQueryStore } from './savedQueries';
+import { AI_REPAIR_ATTEMPTS_SETTING, AI_SAMPLE_ROWS_SETTING, AiError, AiKeyStore, AiProvider, createProvider, readProviderConfigs } from './aiProviders';
+import { describeProfiles, describeSchema, explainResult, generateSql } from './sqlAssistant';
 import * as ExcelJS from 'exceljs';
 
 interface PageRequest {
@@ -20,25 +30,112 @@ interface ExportRequest extends PageRequest {
 interface FlatFileData {
 	columns: string[];
 	rows: any[][];
+	// Index each row had in the file when it was read, or null for rows added by editing
+	origins?: Array<number | null>;
 }
 
-function detectFileType(filePath: string): 'csv' | 'tsv' | 'parquet' | 'excel' | 'json' {
+type CellChange = { row: number; column: number; before: any; after: any };
+// Rows listed by ascending index; for inserts the index is the row's position afterwards
+type RowChange = { index: number; values: any[]; origin?: number | null };
+
+type DocumentEdit =
+	| { type: 'setCells'; cells: CellChange[] }
+	| { type: 'insertRows'; rows: RowChange[] }
+	| { type: 'deleteRows'; rows: RowChange[] }
+	| { type: 'batch'; edits: DocumentEdit[] };
+
+function invertEdit(edit: DocumentEdit): DocumentEdit {
+	switch (edit.type) {
+		case 'setCells':
+			return { type: 'setCells', cells: edit.cells.map(c => ({ ...c, before: c.after, after: c.before })) };
+		case 'insertRows':
+			return { type: 'deleteRows', rows: edit.rows };
+		case 'deleteRows':
+			return { type: 'insertRows', rows: edit.rows };
+		case 'batch':
+			return { type: 'batch', edits: edit.edits.map(invertEdit).reverse() };
+	}
+}
+
+function applyEditTo(data: FlatFileData, edit: DocumentEdit): void {
+	const { rows, origins } = data;
+	switch (edit.type) {
+		case 'setCells':
+			edit.cells.forEach(c => { rows[c.row][c.column] = c.after; });
+			break;
+		case 'insertRows':
+			edit.rows.forEach(r => {
+				rows.splice(r.index, 0, [...r.values]);
+				origins?.splice(r.index, 0, r.origin ?? null);
+			});
+			break;
+		case 'deleteRows':
+			[...edit.rows].reverse().forEach(r => {
+				rows.splice(r.index, 1);
+				origins?.splice(r.index, 1);
+			});
+			break;
+		case 'batch':
+			edit.edits.forEach(e => applyEditTo(data, e));
+			break;
+	}
+}
+
+function isBaseQuery(sql?: string): boolean {
+	return !sql || sql.replace(/\s+/g, ' ').trim().replace(/;+\s*$/, '').toLowerCase() === 'select * from data';
+}
+
+interface StoredAttachment {
+	alias: string;
+	filePath: string;
+}
+
+const FLAT_FILE_FILTERS = {
+	'Flat files': ['csv', 'tsv', 'parquet', 'pq', 'xlsx', 'xls', 'json', 'jsonl', 'ndjson', 'xml'],
+	'All files': ['*']
+};
+
+function detectFileType(filePath: string): 'csv' | 'tsv' | 'parquet' | 'excel' | 'json' | 'xml' {
 	const ext = path.extname(filePath).toLowerCase();
 	if (ext === '.csv') return 'csv';
 	if (ext === '.tsv') return 'tsv';
 	if (ext === '.parquet' || ext === '.pq') return 'parquet';
 	if (ext === '.xlsx' || ext === '.xls') return 'excel';
-	if (ext === '.json') return 'json';
+	if (ext === '.json' || ext === '.jsonl' || ext === '.ndjson') return 'json';
+	if (ext === '.xml') return 'xml';
 	return 'csv'; // default
 }
 
+// The Node binding's interrupt() does nothing, so a stopped statement still runs to the end
+const STILL_RUNNING = 'DuckDB cannot interrupt it, so it finishes in the background and later queries start after it.';
+
+function csvDialectKey(uri: vscode.Uri): string {
+	return `flatFileReader.csvDialect:${uri.toString()}`;
+}
+
+function columnAliasesKey(uri: vscode.Uri): string {
+	return `flatFileReader.columnAliases:${uri.toString()}`;
+}
+
+function attachedTablesKey(uri: vscode.Uri): string {
+	return `flatFileReader.attachedTables:${uri.toString()}`;
+}
+
+/** Suggested table name for an attached file: its base name reduced to a plain identifier. */
+function defaultAlias(filePath: string): string {
+	const base = path.basename(filePath, path.extname(filePath)).toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+	if (!base) return 'table1';
+	return /^[0-9]/.test(base) ? `t_${base}` : base;
+}
+
 export function activate(context: vscode.ExtensionContext) {
-	const statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
-	statusBar.text = 'Flat File Explorer: Initializing…';
-	statusBar.show();
-	context.subscriptions.push(statusBar);
+	const status = new QueryStatus();
+	context.subscriptions.push(
+		status,
+		vscode.commands.registerCommand(CANCEL_QUERY_COMMAND, () => status.cancelCurrent())
+	);
 
-	const provider = new FlatFileEditorProvider(context);
+	const provider = new FlatFileEditorProvider(context, status);
 	context.subscriptions.push(
 		vscode.window.registerCustomEditorProvider('flatFileReader.viewer', provider, {
 			supportsMultipleEditorsPerDocument: false,
@@ -52,12 +149,7 @@ export function activate(context: vscode.ExtensionContext) {
 		vscode.commands.registerCommand('flatFileReader.open', async (uri?: vscode.Uri) => {
 			let target = uri;
 			if (!target) {
-				const pick = await vscode.window.showOpenDialog({
-					filters: {
-						'Flat files': ['csv', 'tsv', 'parquet', 'pq', 'xlsx', 'xls', 'json'],
-						'All files': ['*']
-					}
-				});
+				const pick = await vscode.window.showOpenDialog({ filters: FLAT_FILE_FILTERS });
 				if (!pick || pick.length === 0) { return; }
 				target = pick[0];
 			}
@@ -68,41 +160,275 @@ export function activate(context: vscode.ExtensionContext) {
 
 class FlatFileDocument implements vscode.CustomDocument {
 	public readonly uri: vscode.Uri;
-	private _data: FlatFileData;
-	private _edits: Array<{ columns: string[]; rows: any[][] }> = [];
+	public readonly session: FileSession;
+	private _info: TableInfo;
+	// Full in-memory copy of the rows; only materialized once editing starts
+	private _data: FlatFileData | null = null;
+	private _edits: DocumentEdit[] = [];
 	private _savedEdits: number = 0;
+	// Set when `_data` has edits the DuckDB table has not seen yet
+	private _tableStale = false;
+
+	private readonly _onDidChange = new vscode.EventEmitter<{ label: string; undo(): Promise<void>; redo(): Promise<void> }>();
+	/** Fired for every edit so the provider can register it with VS Code's undo stack. */
+	public readonly onDidChange = this._onDidChange.event;
 
-	constructor(uri: vscode.Uri, initialData: FlatFileData) {
+	private readonly _onDidChangeContent = new vscode.EventEmitter<void>();
+	/** Fired whenever the rows change, including undo, redo and revert. */
+	public readonly onDidChangeContent = this._onDidChangeContent.event;
+
+	constructor(uri: vscode.Uri, session: FileSession, info: TableInfo) {
 		this.uri = uri;
-		this._data = { ...initialData };
+		this.session = session;
+		this._info = info;
+	}
+
+	get info(): TableInfo {
+		return { ...this._info };
+	}
+
+	/** Reads every row from the session into memory, once, so it can be edited and written back. */
+	async ensureData(): Promise<FlatFileData> {
+		if (!this._data) {
+			const data = await this.session.readEditable();
+			this._data = { columns: [...data.columns], rows: data.rows.map(row => [...row]), origins: data.rows.map((_, i) => i) };
+		}
+		return this._data;
+	}
+
+	get isDirty(): boolean {
+		return this._edits.length !== this._savedEdits;
+	}
+
+	/**
+	 * Formats that can be written back, so editing is offered for them. A JSON document read as
+	 * one of its arrays, or flattened into dotted columns, cannot be rebuilt from the table.
+	 */
+	get canEdit(): boolean {
+		const type = detectFileType(this.uri.fsPath);
+		if (type === 'json') {
+			const json = this.session.jsonInfo;
+			return !json || (json.shape !== 'object' && !json.flatten);
+		}
+		return type === 'csv' || type === 'tsv' || type === 'excel' || type === 'parquet';
+	}
+
+	/** A page of rows. Plain pages come straight from the edited rows; other queries see them after a sync. */
+	async query(offset: number, limit: number, search?: string, sql?: string, filters?: ColumnFilter[], sort?: SortKey[]): Promise<PageData> {
+		if (this._data && isBaseQuery(sql) && !(search && search.trim()) && !(filters && filters.length > 0) && !(sort && sort.length > 0)) {
+			return {
+				columns: this._data.columns.map(col => this.session.aliasFor(col)),
+				rows: this._data.rows.slice(offset, offset + limit),
+				offset,
+				limit,
+				total: this._data.rows.length,
+				types: [...this._info.types]
+			};
+		}
+		await this.syncTable();
+		return this.session.query(offset, limit, search, sql, filters, sort);
+	}
+
+	/** Writes pending edits into the DuckDB table so SQL, search, profiling and export see them. */
+	async syncTable(): Promise<void> {
+		if (this._data && this._tableStale) {
+			await this.session.replaceData(this._data.rows);
+			this._tableStale = false;
+		}
+	}
+
+	async editCells(changes: Array<{ row: number; column: number; value: string }>): Promise<void> {
+		const data = await this.ensureData();
+		const valid = changes.filter(c => c.row >= 0 && c.row < data.rows.length && c.column >= 0 && c.column < data.columns.length);
+		await this.checkValues(valid);
+		const cells = valid
+			.map(c => ({ row: c.row, column: c.column, before: data.rows[c.row][c.column], after: c.value === '' ? null : c.value }))
+			.filter(c => c.before !== c.after);
+		if (cells.length === 0) return;
+		await this.applyEdit({ type: 'setCells', cells }, cells.length === 1 ? 'Edit Cell' : 'Edit Cells');
+	}
+
+	/** Pastes a block of values at a cell, adding rows at the end when it runs past the last one. */
+	async pasteCells(row: number, column: number, values: string[][]): Promise<void> {
+		const data = await this.ensureData();
+		const width = data.columns.length - column;
+		const block = values.map(line => line.slice(0, width));
+		const changes = block.flatMap((line, r) => line.map((value, c) => ({ row: row + r, column: column + c, value })));
+		await this.checkValues(changes);
+
+		const extra = Math.max(0, row + block.length - data.rows.length);
+		const inserts: RowChange[] = Array.from({ length: extra }, (_, i) => ({ index: data.rows.length + i, values: data.columns.map(() => null) }));
+		const cells: CellChange[] = changes.map(c => ({
+			row: c.row,
+			column: c.column,
+			before: c.row < data.rows.length ? data.rows[c.row][c.column] : null,
+			after: c.value === '' ? null : c.value
+		})).filter(c => c.before !== c.after);
+		const edits: DocumentEdit[] = [];
+		if (inserts.length > 0) edits.push({ type: 'insertRows', rows: inserts });
+		if (cells.length > 0) edits.push({ type: 'setCells', cells });
+		if (edits.length === 0) return;
+		await this.applyEdit({ type: 'batch', edits }, 'Paste');
+	}
+
+	async insertRows(index: number, count = 1): Promise<void> {
+		const data = await this.ensureData();
+		const at = Math.max(0, Math.min(index, data.rows.length));
+		const rows = Array.from({ length: Math.max(1, count) }, (_, i) => ({ index: at + i, values: data.columns.map(() => null) }));
+		await this.applyEdit({ type: 'insertRows', rows }, rows.length === 1 ? 'Insert Row' : 'Insert Rows');
+	}
+
+	async deleteRows(indexes: number[]): Promise<void> {
+		const data = await this.ensureData();
+		const unique = Array.from(new Set(indexes)).filter(i => i >= 0 && i < data.rows.length).sort((a, b) => a - b);
+		if (unique.length === 0) return;
+		// The origin comes back with the row on undo, so a save still knows which file row it is
+		const rows = unique.map(index => ({ index, values: [...data.rows[index]], origin: data.origins?.[index] ?? null }));
+		await this.applyEdit({ type: 'deleteRows', rows }, rows.length === 1 ? 'Delete Row' : 'Delete Rows');
+	}
+
+	/** Rejects values that the column's type cannot hold, instead of silently storing NULL. */
+	private async checkValues(changes: Array<{ column: number; value: string }>): Promise<void> {
+		const typed = changes.filter(c => c.value !== '' && (this._info.types[c.column] ?? 'VARCHAR') !== 'VARCHAR');
+		if (typed.length === 0) return;
+		const ok = await this.session.castable(typed.map(c => ({ value: c.value, type: this._info.types[c.column] })));
+		const bad = typed.find((_, i) => !ok[i]);
+		if (bad) {
+			throw new Error(`"${bad.value}" is not a valid ${this._info.types[bad.column]} for column "${this._info.columns[bad.column]}".`);
+		}
+	}
+
+	private async applyEdit(edit: DocumentEdit, label: string): Promise<void> {
+		if (!this.canEdit) {
+			throw new Error('This file is shown as a table derived from its contents, so saving edits would not reproduce it.');
+		}
+		const data = await this.ensureData();
+		this.apply(data, edit);
+		this._edits.push(edit);
+		this._onDidChange.fire({
+			label,
+			undo: async () => {
+				this.apply(await this.ensureData(), invertEdit(edit));
+				this._edits.pop();
+				this._onDidChangeContent.fire();
+			},
+			redo: async () => {
+				this.apply(await this.ensureData(), edit);
+				this._edits.push(edit);
+				this._onDidChangeContent.fire();
+			}
+		});
+		this._onDidChangeContent.fire();
 	}
 
-	get data(): FlatFileData {
-		return { ...this._data };
+	private apply(data: FlatFileData, edit: DocumentEdit): void {
+		applyEditTo(data, edit);
+		this._info.total = data.rows.length;
+		this._tableStale = true;
 	}
 
-	makeEdit(columns: string[], rows: any[][]): void {
-		this._data = { columns: [...columns], rows: rows.map(row => [...row]) };
-		this._edits.push({ columns: [...columns], rows: rows.map(row => [...row]) });
+	/** Restores rows written by `backup` after a hot exit; the document stays dirty until saved. */
+	restoreBackup(data: FlatFileData): void {
+		// Backups from before origins were tracked map rows to the file by position
+		this._data = { columns: [...data.columns], rows: data.rows.map(row => [...row]), origins: data.origins ?? data.rows.map((_, i) => i) };
+		this._info.total = this._data.rows.length;
+		this._tableStale = true;
+		// No edit count matches, so the document reads as dirty
+		this._savedEdits = -1;
+	}
+
+	/** Dialect to write CSV/TSV back with: the one the file was read with, unless saving to another format. */
+	csvDialectFor(target: vscode.Uri): CsvDialect {
+		const type = detectFileType(target.fsPath);
+		const fallback = defaultCsvDialect(type === 'tsv' ? '\t' : ',');
+		if (type !== detectFileType(this.uri.fsPath)) return fallback;
+		return this.session.csvDialect ?? fallback;
+	}
+
+	/** Preamble and comment lines of the opened file, when saving to the same format keeps them. */
+	csvLayoutFor(target: vscode.Uri): CsvLayout | undefined {
+		const type = detectFileType(this.uri.fsPath);
+		const dialect = this.session.csvDialect;
+		if ((type !== 'csv' && type !== 'tsv') || detectFileType(target.fsPath) !== type || !dialect || !fs.existsSync(this.uri.fsPath)) return undefined;
+		return readCsvLayout(this.uri.fsPath, dialect);
+	}
+
+	async setCsvDialect(dialect: CsvDialect | undefined): Promise<void> {
+		await this.rebuild(() => this.session.setCsvDialect(dialect));
+	}
+
+	async setColumnType(column: string, type: string): Promise<void> {
+		await this.rebuild(() => this.session.setColumnType(column, type));
+	}
+
+	async setXmlRecordPath(recordPath: string): Promise<void> {
+		await this.rebuild(() => this.session.setXmlRecordPath(recordPath));
+	}
+
+	async setJsonFlatten(flatten: boolean): Promise<void> {
+		await this.rebuild(() => this.session.setJsonFlatten(flatten));
+	}
+
+	async selectSheet(name: string): Promise<void> {
+		await this.rebuild(() => this.session.selectSheet(name));
+	}
+
+	async setSheetOptions(name: string, options: SheetOptions): Promise<void> {
+		await this.rebuild(() => this.session.setSheetOptions(name, options));
+	}
+
+	/** Runs a change that replaces the `data` table; refused while edits are unsaved so none are lost. */
+	private async rebuild(change: () => Promise<void>): Promise<void> {
+		if (this.isDirty) {
+			throw new Error('Save or revert your changes before re-importing the file.');
+		}
+		await change();
+		this._info = await this.session.describe();
+		this._data = null;
+		this._tableStale = false;
 	}
 
 	async save(cancellation: vscode.CancellationToken): Promise<void> {
 		await this.saveAs(this.uri, cancellation);
+		if (this._data) {
+			// Row positions in the file now match the edited rows
+			this._data.origins = this._data.rows.map((_, i) => i);
+		}
+		// Queries should see what is now on disk, which now matches the edited rows
+		await this.session.reload();
+		this._info = await this.session.describe();
+		this._tableStale = false;
 	}
 
 	async saveAs(targetResource: vscode.Uri, cancellation: vscode.CancellationToken): Promise<void> {
 		const type = detectFileType(targetResource.fsPath);
+		if (type === 'parquet') {
+			// DuckDB writes the typed table directly, so rows never pass through memory here
+			await this.syncTable();
+			// `data` may still be a view over the file being replaced, so write beside it first
+			const temp = vscode.Uri.file(`${targetResource.fsPath}.${Date.now()}.tmp`);
+			const note = await this.session.saveParquet(temp.fsPath);
+			await vscode.workspace.fs.rename(temp, targetResource, { overwrite: true });
+			if (note) vscode.window.showWarningMessage(note);
+			this._savedEdits = this._edits.length;
+			return;
+		}
 
-		if (type === 'csv' || type === 'tsv') {
-			const delim = type === 'csv' ? ',' : '\t';
-			const csv = (Papa as any).unparse(this._data.rows, { fields: this._data.columns, delimiter: delim });
+		const data = await this.ensureData();
+		const sheet = this.session.sheets.find(s => s.name === this.session.activeSheet);
+		if (type === 'excel' && sheet && path.extname(targetResource.fsPath).toLowerCase() === '.xlsx') {
+			// Rewrite only the edited sheet's values inside the original workbook
+			const buffer = await writeSheetValues(this.uri.fsPath, sheet, this._info.types, data.rows, data.origins ?? data.rows.map((_, i) => i));
+			await vscode.workspace.fs.writeFile(targetResource, new Uint8Array(buffer));
+		} else if (type === 'csv' || type === 'tsv') {
+			const csv = toCsv(data.columns, data.rows, this.csvDialectFor(targetResource), this.csvLayoutFor(targetResource));
 			await vscode.workspace.fs.writeFile(targetResource, Buffer.from(csv));
 		} else if (type === 'excel') {
 			const workbook = new ExcelJS.Workbook();
 			try {
 				const worksheet = workbook.addWorksheet('Sheet1');
-				worksheet.addRow(this._data.columns);
-				this._data.rows.forEach((row: any[]) => worksheet.addRow(row));
+				worksheet.addRow(data.columns);
+				data.rows.forEach((row: any[]) => worksheet.addRow(row));
 				const buffer = await workbook.xlsx.writeBuffer();
 				await vscode.workspace.fs.writeFile(targetResource, new Uint8Array(buffer));
 			} finally {
@@ -110,17 +436,21 @@ class FlatFileDocument implements vscode.CustomDocument {
 				await workbook.xlsx.writeBuffer();
 				(workbook as any).removeWorksheet = null;
 			}
-		} else if (type === 'parquet') {
-			throw new Error('Saving Parquet files is not supported.');
 		} else if (type === 'json') {
-			const jsonData = this._data.rows.map(row => {
+			const jsonData = data.rows.map(row => {
 				const obj: any = {};
-				this._data.columns.forEach((col, index) => {
+				data.columns.forEach((col, index) => {
 					obj[col] = row[index];
 				});
 				return obj;
 			});
-			await vscode.workspace.fs.writeFile(targetResource, Buffer.from(JSON.stringify(jsonData, null, 2)));
+			const ext = path.extname(targetResource.fsPath).toLowerCase();
+			// A `.json` file holding JSON Lines is written back as lines
+			const lines = ext === '.jsonl' || ext === '.ndjson' || (targetResource.fsPath === this.uri.fsPath && this.session.jsonInfo?.shape === 'lines');
+			const content = lines
+				? jsonData.map(obj => JSON.stringify(obj)).join('\n') + '\n'
+				: JSON.stringify(jsonData, null, 2);
+			await vscode.workspace.fs.writeFile(targetResource, Buffer.from(content));
 		} else {
 			throw new Error('Unsupported file type for saving');
 		}
@@ -129,15 +459,25 @@ class FlatFileDocument implements vscode.CustomDocument {
 	}
 
 	async revert(_cancellation: vscode.CancellationToken): Promise<void> {
-		// Load original data from file
-		const data = await loadFileData(this.uri.fsPath, 0, Number.MAX_SAFE_INTEGER);
-		this._data = { columns: [...data.columns], rows: data.rows.map(row => [...row]) };
+		await this.reloadFromDisk();
+	}
+
+	/** Re-imports the file into the session and drops all edits; rows are read again only if editing resumes. */
+	async reloadFromDisk(): Promise<void> {
+		await this.session.reload();
+		this._info = await this.session.describe();
+		this._data = null;
+		this._tableStale = false;
 		this._edits = [];
 		this._savedEdits = 0;
+		this._onDidChangeContent.fire();
 	}
 
-	async backup(destination: vscode.Uri, cancellation: vscode.CancellationToken): Promise<vscode.CustomDocumentBackup> {
-		await this.saveAs(destination, cancellation);
+	async backup(destination: vscode.Uri, _cancellation: vscode.CancellationToken): Promise<vscode.CustomDocumentBackup> {
+		// Backups keep the edited rows in a neutral form, whatever the file format
+		const data = await this.ensureData();
+		const content = JSON.stringify(data, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+		await vscode.workspace.fs.writeFile(destination, Buffer.from(content));
 		return {
 			id: destination.toString(),
 			delete: async (): Promise<void> => {
@@ -152,6 +492,10 @@ class FlatFileDocument implements vscode.CustomDocument {
 
 	dispose(): void {
 		this._edits.length = 0;
+		this._data = null;
+		this._onDidChange.dispose();
+		this._onDidChangeContent.dispose();
+		this.session.close();
 	}
 }
 
@@ -159,17 +503,47 @@ class FlatFileEditorProvider implements vscode.CustomEditorProvider<FlatFileDocu
 	private readonly _onDidChangeCustomDocument = new vscode.EventEmitter<vscode.CustomDocumentEditEvent<FlatFileDocument>>();
 	public readonly onDidChangeCustomDocument = this._onDidChangeCustomDocument.event;
 
-	constructor(private readonly context: vscode.ExtensionContext) {}
+	private readonly savedQueries: SavedQueryStore;
+	private readonly aiKeys: AiKeyStore;
 
-	async openCustomDocument(uri: vscode.Uri, openContext: vscode.CustomDocumentOpenContext, token: vscode.CancellationToken): Promise<FlatFileDocument> {
-		// Load the file data
-		const data = await loadFileData(uri.fsPath, 0, Number.MAX_SAFE_INTEGER);
-		const flatFileData: FlatFileData = {
-			columns: data.columns,
-			rows: data.rows
-		};
+	constructor(private readonly context: vscode.ExtensionContext, private readonly status: QueryStatus) {
+		this.savedQueries = new SavedQueryStore(context.workspaceState);
+		this.aiKeys = new AiKeyStore(context.secrets);
+	}
 
-		return new FlatFileDocument(uri, flatFileData);
+	async openCustomDocument(uri: vscode.Uri, openContext: vscode.CustomDocumentOpenContext, token: vscode.CancellationToken): Promise<FlatFileDocument> {
+		// One DuckDB session per document; every webview request reuses its `data` table
+		const csvDialect = this.context.workspaceState.get<CsvDialect>(csvDialectKey(uri));
+		const columnAliases = this.context.workspaceState.get<Record<string, string>>(columnAliasesKey(uri));
+		const session = new FileSession(uri.fsPath, { csvDialect, columnAliases });
+		const statusKey = uri.toString();
+		const label = `Importing ${path.basename(uri.fsPath)}`;
+		const started = Date.now();
+		try {
+			// Only schema and row count up front; the webview pages rows on demand
+			this.status.begin(statusKey, label);
+			const info = await session.describe();
+			this.status.end(statusKey, label, Date.now() - started, info.total);
+			// Restore tables attached in an earlier session; files that moved or vanished are skipped
+			for (const saved of this.context.workspaceState.get<StoredAttachment[]>(attachedTablesKey(uri)) ?? []) {
+				try {
+					await session.attachFile(saved.alias, saved.filePath);
+				} catch (err) {
+					console.warn('Could not re-attach', saved.filePath, err);
+				}
+			}
+			const document = new FlatFileDocument(uri, session, info);
+			if (openContext.backupId) {
+				const backup = await vscode.workspace.fs.readFile(vscode.Uri.parse(openContext.backupId));
+				document.restoreBackup(JSON.parse(Buffer.from(backup).toString('utf-8')));
+			}
+			document.onDidChange(e => this._onDidChangeCustomDocument.fire({ document, ...e }));
+			return document;
+		} catch (err) {
+			this.status.fail(statusKey, label, Date.now() - started, err);
+			session.close();
+			throw err;
+		}
 	}
 
 	async saveCustomDocument(document: FlatFileDocument, cancellation: vscode.CancellationToken): Promise<void> {
@@ -182,11 +556,6 @@ class FlatFileEditorProvider implements vscode.CustomEditorProvider<FlatFileDocu
 
 	async revertCustomDocument(document: FlatFileDocument, cancellation: vscode.CancellationToken): Promise<void> {
 		await document.revert(cancellation);
-		this._onDidChangeCustomDocument.fire({
-			document,
-			undo: async () => { /* handled by document */ },
-			redo: async () => { /* handled by document */ }
-		});
 	}
 
 	async backupCustomDocument(document: FlatFileDocument, context: vscode.CustomDocumentBackupContext, cancellation: vscode.CancellationToken): Promise<vscode.CustomDocumentBackup> {
@@ -198,6 +567,7 @@ class FlatFileEditorProvider implements vscode.CustomEditorProvider<FlatFileDocu
 		webviewPanel.webview.html = this.getHtml(webviewPanel.webview);
 
 		const filePath = document.uri.fsPath;
+		const session = document.session;
 		const pageSize = 100;
 		let isDisposed = false;
 
@@ -219,35 +589,485 @@ class FlatFileEditorProvider implements vscode.CustomEditorProvider<FlatFileDocu
 			}
 		};
 
-		const fetchPage = async (offset: number, search?: string, sql?: string) => {
+		const statusKey = document.uri.toString();
+		// Callbacks that stop waiting for the queries in flight for this editor
+		const running = new Set<(reason: string) => void>();
+
+		/**
+		 * Runs one query, reporting it in the status bar and giving up on it when the user stops
+		 * it or it passes the configured timeout. The DuckDB Node binding cannot interrupt a
+		 * statement, so DuckDB still finishes it in the background and its result is dropped.
+		 */
+		const runQuery = async <T>(label: string, work: () => Promise<T>, rowsOf: (result: T) => number | undefined = () => undefined): Promise<T> => {
+			const started = Date.now();
+			const timeoutSeconds = vscode.workspace.getConfiguration('flatFileReader').get<number>('queryTimeoutSeconds', 300);
+			let stop: (reason: string) => void = () => undefined;
+			const stopped = new Promise<never>((_, reject) => {
+				stop = (reason) => reject(new QueryCancelledError(`${reason} ${STILL_RUNNING}`));
+			});
+			const timer = timeoutSeconds > 0 ? setTimeout(() => stop(`Stopped waiting for the query after the ${timeoutSeconds} s timeout.`), timeoutSeconds * 1000) : undefined;
+			running.add(stop);
+			this.status.begin(statusKey, label, () => stop('Stopped waiting for the query.'));
+			try {
+				const result = await Promise.race([work(), stopped]);
+				const elapsedMs = Date.now() - started;
+				const rows = rowsOf(result);
+				this.status.end(statusKey, label, elapsedMs, rows);
+				postMessage({ type: 'queryStats', label, elapsedMs, rows });
+				return result;
+			} catch (err) {
+				this.status.fail(statusKey, label, Date.now() - started, err);
+				throw err;
+			} finally {
+				clearTimeout(timer);
+				running.delete(stop);
+			}
+		};
+
+		/** Reports a failed query: one the user stopped waiting for keeps the rows on screen, others replace them with the error. */
+		const postQueryError = (err: any) => {
+			if (err instanceof QueryCancelledError) {
+				postMessage({ type: 'queryCancelled', message: err.message });
+			} else {
+				postError(err.message || String(err));
+			}
+		};
+
+		const fetchPage = async (offset: number, search?: string, sql?: string, filters?: ColumnFilter[], sort?: SortKey[]) => {
 			console.log('Fetching page with offset:', offset, 'search:', search, 'sql:', sql);
 			try {
-				const data = await loadFileData(filePath, offset, pageSize, search, sql);
-				console.log('loadFileData returned data with columns:', data.columns.length, 'rows:', data.rows.length);
-				postMessage({ type: 'page', data: JSON.parse(JSON.stringify(data, (key, value) => typeof value === 'bigint' ? value.toString() : value)) });
+				const data = await runQuery('Querying', () => document.query(offset, pageSize, search, sql, filters, sort), page => page.total);
+				console.log('document.query returned data with columns:', data.columns.length, 'rows:', data.rows.length);
+				// The query is echoed back so the webview knows what the rows on screen came from
+				postMessage({ type: 'page', data: JSON.parse(JSON.stringify(data, (key, value) => typeof value === 'bigint' ? value.toString() : value)), search, sql, filters, sort });
 				if (data && data.columns) {
 					postMessage({ type: 'columns', columns: data.columns });
 				}
 			} catch (err: any) {
 				console.log('Error in fetchPage:', err.message);
+				postQueryError(err);
+			}
+		};
+
+		const postSheets = () => {
+			const sheets = session.sheets;
+			if (sheets.length > 0) {
+				postMessage({ type: 'sheets', sheets, active: session.activeSheet });
+			}
+		};
+
+		const postXmlInfo = () => {
+			const info = session.xmlInfo;
+			if (info) {
+				postMessage({ type: 'xmlInfo', ...info });
+			}
+		};
+
+		const postJsonInfo = () => {
+			const info = session.jsonInfo;
+			if (info) {
+				postMessage({ type: 'jsonInfo', ...info });
+			}
+		};
+
+		const postColumnTypes = () => {
+			if (session.supportsColumnTypes) {
+				postMessage({ type: 'columnTypes', overrides: session.columnTypeOverrides });
+			}
+		};
+
+		const postColumnAliases = () => {
+			postMessage({ type: 'columnAliases', columns: document.info.columns, aliases: session.columnAliases });
+		};
+
+		/** Sends the configured AI providers and whether a key is stored for each; keys never leave the extension. */
+		const postAiProviders = async () => {
+			const providers = await Promise.all(readProviderConfigs().map(async p => ({
+				id: p.id,
+				label: p.label,
+				models: p.models,
+				requiresKey: !!p.requiresKey,
+				hasKey: !!(await this.aiKeys.get(p.id))
+			})));
+			const sampleRows = vscode.workspace.getConfiguration('flatFileReader').get<number>(AI_SAMPLE_ROWS_SETTING, 3);
+			postMessage({ type: 'aiProviders', providers, sampleRows });
+		};
+
+		/** Provider, key and model an AI request names; reports what is missing as `errorType` instead. */
+		const resolveAi = async (msg: any, errorType: string): Promise<{ provider: AiProvider; apiKey?: string; model: string } | undefined> => {
+			const config = readProviderConfigs().find(p => p.id === msg.provider);
+			if (!config) {
+				postMessage({ type: errorType, message: `Unknown AI provider "${msg.provider}". Check the flatFileReader.ai.providers setting.` });
+				return undefined;
+			}
+			// A key typed into the dialog is kept for next time
+			if (typeof msg.apiKey === 'string' && msg.apiKey.trim()) {
+				await this.aiKeys.set(config.id, msg.apiKey);
+				await postAiProviders();
+			}
+			const apiKey = await this.aiKeys.get(config.id);
+			if (config.requiresKey && !apiKey) {
+				postMessage({ type: errorType, message: `Missing API key for ${config.label}. Enter it in the Generate SQL with AI dialog.` });
+				return undefined;
+			}
+			const model = msg.model || config.models[0];
+			if (!model) {
+				postMessage({ type: errorType, message: `Enter a model name for ${config.label}.` });
+				return undefined;
+			}
+			return { provider: createProvider(config), apiKey, model };
+		};
+
+		/** Binds the queries of AI-written SQL; scripts that create views could only be checked by running them, so they are not. */
+		const validateGeneratedSql = async (sql: string) => {
+			const statements = splitStatements(sql);
+			if (statements.some(statement => !isQueryStatement(statement.text))) return;
+			for (const statement of statements) {
+				await session.checkQuery(statement.text);
+			}
+		};
+
+		const postSavedQueries = () => {
+			postMessage({ type: 'savedQueries', queries: this.savedQueries.list(document.uri) });
+		};
+
+		/** Runs a change to the query library, then sends the updated list. */
+		const updateSavedQueries = async (change: () => Promise<unknown>) => {
+			try {
+				await change();
+			} catch (err: any) {
+				postError(err.message || String(err));
+			}
+			postSavedQueries();
+		};
+
+		const postTables = async () => {
+			try {
+				postMessage({ type: 'tables', tables: await session.listTables() });
+			} catch (err: any) {
 				postError(err.message || String(err));
 			}
 		};
 
+		const storeAttachments = () => this.context.workspaceState.update(
+			attachedTablesKey(document.uri),
+			session.attachments.map(a => ({ alias: a.alias, filePath: a.filePath }))
+		);
+
+		const attachFiles = async (uris: vscode.Uri[]) => {
+			for (const uri of uris) {
+				const taken = new Set(['data', ...session.attachments.map(a => a.alias.toLowerCase())]);
+				const alias = await vscode.window.showInputBox({
+					title: `Attach ${path.basename(uri.fsPath)}`,
+					prompt: 'Table name to use for this file in SQL queries',
+					value: defaultAlias(uri.fsPath),
+					validateInput: value => {
+						if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(value)) return 'Use letters, digits and underscores, starting with a letter.';
+						if (taken.has(value.toLowerCase())) return `"${value}" is already in use.`;
+						return undefined;
+					}
+				});
+				if (!alias) continue;
+				try {
+					await session.attachFile(alias, uri.fsPath);
+					await storeAttachments();
+				} catch (err: any) {
+					postError(err.message || String(err));
+				}
+			}
+			await postTables();
+		};
+
+		const contentListener = document.onDidChangeContent(() => postMessage({ type: 'documentChanged' }));
+
+		const runEdit = async (edit: () => Promise<void>) => {
+			try {
+				await edit();
+			} catch (err: any) {
+				postMessage({ type: 'editError', message: err.message || String(err) });
+			}
+		};
+
 		// Initial load will be handled by webview request
 
+		/**
+		 * Runs the statements of a script in order. Statements that return rows become result
+		 * tabs, paged like any query; the others run once, so the views and tables they create
+		 * stay available for later queries on this document.
+		 */
+		const runScript = async (script: string, search?: string, filters?: ColumnFilter[], sort?: SortKey[]) => {
+			const statements = splitStatements(script);
+			if (statements.length === 0) {
+				await fetchPage(0, search, undefined, filters, sort);
+				return;
+			}
+			const results: Array<{ sql: string; line: number }> = [];
+			try {
+				await runQuery(statements.length > 1 ? `Running ${statements.length} statements` : 'Querying', async () => {
+					await document.syncTable();
+					for (let i = 0; i < statements.length; i++) {
+						const statement = statements[i];
+						try {
+							if (isQueryStatement(statement.text)) {
+								await session.checkQuery(statement.text);
+								results.push({ sql: statement.text, line: statement.line });
+							} else {
+								await session.execute(statement.text);
+							}
+						} catch (err: any) {
+							const where = statements.length > 1 ? `Statement ${i + 1} (line ${statement.line})` : `Line ${statement.line}`;
+							throw new Error(`${where}: ${err.message || String(err)}`);
+						}
+					}
+				});
+			} catch (err: any) {
+				// Statements before the failing one have run, so their results and new tables are still shown
+				postMessage({ type: 'scriptResults', results });
+				await postTables();
+				postQueryError(err);
+				return;
+			}
+			postMessage({ type: 'scriptResults', results });
+			if (statements.some(st => !isQueryStatement(st.text))) {
+				await postTables();
+			}
+			if (results.length > 0) {
+				// Filters and sort keys only carry over to a single result
+				const single = results.length === 1;
+				await fetchPage(0, search, results[0].sql, single ? filters : undefined, single ? sort : undefined);
+			} else {
+				await fetchPage(0, search, undefined);
+			}
+		};
+
 		const messageHandler = async (msg: any) => {
 			console.log('Received message:', msg?.type, msg);
 			if (msg?.type === 'requestPage') {
-				await fetchPage(msg.offset ?? 0, msg.search ?? undefined, msg.sql ?? undefined);
+				await fetchPage(msg.offset ?? 0, msg.search ?? undefined, msg.sql ?? undefined, Array.isArray(msg.filters) ? msg.filters : undefined, Array.isArray(msg.sort) ? msg.sort : undefined);
+			} else if (msg?.type === 'runScript') {
+				await runScript(String(msg.sql ?? ''), msg.search ?? undefined, Array.isArray(msg.filters) ? msg.filters : undefined, Array.isArray(msg.sort) ? msg.sort : undefined);
 			} else if (msg?.type === 'refresh') {
 				await fetchPage(0);
 			} else if (msg?.type === 'export') {
 				try {
-					const uri = await vscode.window.showSaveDialog({ filters: { 'CSV': ['csv'] }, defaultUri: vscode.Uri.file(path.join(path.dirname(filePath), path.basename(filePath) + '.csv')) });
+					const options: ExportOptions = { format: 'csv', ...msg.options };
+					const format = EXPORT_FORMATS[options.format];
+					if (!format) {
+						throw new Error(`Unsupported export format "${options.format}".`);
+					}
+					const uri = await vscode.window.showSaveDialog({
+						filters: { [format.label]: format.extensions },
+						defaultUri: vscode.Uri.file(path.join(path.dirname(filePath), `${path.basename(filePath)}.${format.extensions[0]}`))
+					});
+					if (!uri) { return; }
+					await vscode.window.withProgress(
+						{ location: vscode.ProgressLocation.Notification, title: `Exporting ${format.label}…`, cancellable: true },
+						async (_progress, cancelToken) => {
+							cancelToken.onCancellationRequested(() => running.forEach(stop => stop('Stopped waiting for the export.')));
+							await runQuery(`Exporting ${format.label}`, async () => {
+								await document.syncTable();
+								await exportData(session, uri.fsPath, options, msg.search, msg.sql, msg.filters, msg.sort);
+							});
+						}
+					);
+					vscode.window.showInformationMessage(`Exported ${format.label} to ${uri.fsPath}`);
+				} catch (err: any) {
+					if (err instanceof QueryCancelledError) {
+						vscode.window.showWarningMessage(`${err.message} The file is written once it finishes.`);
+					} else {
+						postError(err.message || String(err));
+					}
+				}
+			} else if (msg?.type === 'requestCsvDialect') {
+				if (session.csvDialect) {
+					postMessage({ type: 'csvDialect', dialect: session.csvDialect });
+				}
+			} else if (msg?.type === 'setCsvDialect') {
+				try {
+					await document.setCsvDialect(msg.dialect ?? undefined);
+					// Remember explicit choices; auto-detect clears the stored dialect
+					await this.context.workspaceState.update(csvDialectKey(document.uri), msg.dialect ?? undefined);
+					postMessage({ type: 'csvDialect', dialect: session.csvDialect });
+					await fetchPage(0, msg.search, msg.sql);
+				} catch (err: any) {
+					postError(err.message || String(err));
+				}
+			} else if (msg?.type === 'requestProfile') {
+				try {
+					const columns = await runQuery('Profiling', async () => {
+						await document.syncTable();
+						return session.profile(msg.search, msg.sql, msg.filters);
+					});
+					postMessage({ type: 'profile', columns });
+				} catch (err: any) {
+					postMessage({ type: 'profileError', message: err.message || String(err) });
+				}
+			} else if (msg?.type === 'requestChartData') {
+				try {
+					const chart = await runQuery('Aggregating', async () => {
+						await document.syncTable();
+						return session.aggregate(msg.spec, msg.search, msg.sql, msg.filters);
+					}, result => result.rows.length);
+					// The spec is echoed back so the dashboard can drop answers to picks it has moved on from
+					postMessage({ type: 'chartData', chart, spec: msg.spec });
+				} catch (err: any) {
+					postMessage({ type: 'chartError', message: err.message || String(err), spec: msg.spec });
+				}
+			} else if (msg?.type === 'explainQuery') {
+				try {
+					const plan = await runQuery(msg.analyze ? 'Explaining (analyze)' : 'Explaining', async () => {
+						await document.syncTable();
+						return session.explain(msg.sql ?? '', !!msg.analyze);
+					});
+					postMessage({ type: 'queryPlan', plan });
+				} catch (err: any) {
+					postMessage({ type: 'queryPlanError', message: err.message || String(err) });
+				}
+			} else if (msg?.type === 'formatSql') {
+				postMessage({ type: 'formattedSql', sql: formatSql(msg.sql ?? '') });
+			} else if (msg?.type === 'requestFunctions') {
+				try {
+					postMessage({ type: 'functions', functions: await session.functions() });
+				} catch (err: any) {
+					// Completion falls back to tables, columns and keywords
+					console.warn('Could not list DuckDB functions', err);
+				}
+			} else if (msg?.type === 'requestSavedQueries') {
+				postSavedQueries();
+			} else if (msg?.type === 'saveQuery') {
+				await updateSavedQueries(() => this.savedQueries.add(document.uri, {
+					name: String(msg.name ?? ''),
+					description: String(msg.description ?? ''),
+					sql: String(msg.sql ?? ''),
+					scope: msg.scope === 'workspace' ? 'workspace' : 'file'
+				}));
+			} else if (msg?.type === 'updateSavedQuery') {
+				await updateSavedQueries(() => this.savedQueries.update(document.uri, msg.id, msg.changes ?? {}));
+			} else if (msg?.type === 'duplicateSavedQuery') {
+				await updateSavedQueries(() => this.savedQueries.duplicate(document.uri, msg.id));
+			} else if (msg?.type === 'deleteSavedQuery') {
+				const query = this.savedQueries.list(document.uri).find(q => q.id === msg.id);
+				if (!query) { return; }
+				const choice = await vscode.window.showWarningMessage(`Delete the saved query "${query.name}"?`, { modal: true }, 'Delete');
+				if (choice === 'Delete') {
+					await updateSavedQueries(() => this.savedQueries.remove(document.uri, query.id));
+				}
+			} else if (msg?.type === 'exportSavedQueries') {
+				try {
+					const uri = await vscode.window.showSaveDialog({
+						filters: { JSON: ['json'] },
+						defaultUri: vscode.Uri.file(path.join(path.dirname(filePath), 'queries.json'))
+					});
 					if (!uri) { return; }
-					await exportData(filePath, uri.fsPath, msg.search, msg.sql);
-					vscode.window.showInformationMessage('Exported CSV to ' + uri.fsPath);
+					await fs.promises.writeFile(uri.fsPath, this.savedQueries.serialize(document.uri), 'utf-8');
+					vscode.window.showInformationMessage(`Saved queries exported to ${uri.fsPath}`);
+				} catch (err: any) {
+					postError(err.message || String(err));
+				}
+			} else if (msg?.type === 'importSavedQueries') {
+				const uris = await vscode.window.showOpenDialog({
+					canSelectMany: false,
+					defaultUri: vscode.Uri.file(path.dirname(filePath)),
+					openLabel: 'Import',
+					filters: { JSON: ['json'] }
+				});
+				if (!uris || uris.length === 0) { return; }
+				await updateSavedQueries(async () => {
+					const added = await this.savedQueries.import(document.uri, await fs.promises.readFile(uris[0].fsPath, 'utf-8'));
+					vscode.window.showInformationMessage(added === 1 ? 'Imported 1 saved query.' : `Imported ${added} saved queries.`);
+				});
+			} else if (msg?.type === 'cancelQuery') {
+				running.forEach(stop => stop('Stopped waiting for the query.'));
+			} else if (msg?.type === 'requestEditable') {
+				postMessage({ type: 'editable', editable: document.canEdit });
+			} else if (msg?.type === 'editCells') {
+				await runEdit(() => document.editCells(Array.isArray(msg.changes) ? msg.changes : []));
+			} else if (msg?.type === 'pasteCells') {
+				await runEdit(() => document.pasteCells(msg.row, msg.column, Array.isArray(msg.values) ? msg.values : []));
+			} else if (msg?.type === 'insertRows') {
+				await runEdit(() => document.insertRows(msg.index, msg.count ?? 1));
+			} else if (msg?.type === 'deleteRows') {
+				await runEdit(() => document.deleteRows(Array.isArray(msg.rows) ? msg.rows : []));
+			} else if (msg?.type === 'requestTables') {
+				await postTables();
+			} else if (msg?.type === 'attachFile') {
+				// Files dropped from the Explorer arrive as URIs; otherwise ask with a file picker
+				let uris: vscode.Uri[] = Array.isArray(msg.uris) ? msg.uris.map((u: string) => vscode.Uri.parse(u)) : [];
+				if (uris.length === 0) {
+					uris = await vscode.window.showOpenDialog({
+						canSelectMany: true,
+						defaultUri: vscode.Uri.file(path.dirname(filePath)),
+						openLabel: 'Attach',
+						filters: FLAT_FILE_FILTERS
+					}) ?? [];
+				}
+				await attachFiles(uris.filter(u => u.scheme === 'file'));
+			} else if (msg?.type === 'detachFile') {
+				try {
+					await session.detachFile(msg.alias);
+					await storeAttachments();
+				} catch (err: any) {
+					postError(err.message || String(err));
+				}
+				await postTables();
+			} else if (msg?.type === 'requestColumnAliases') {
+				postColumnAliases();
+			} else if (msg?.type === 'setColumnAliases') {
+				try {
+					await session.setColumnAliases(msg.aliases ?? {});
+					await this.context.workspaceState.update(columnAliasesKey(document.uri), session.columnAliases);
+					postColumnAliases();
+					postColumnTypes();
+					await postTables();
+					// Filters and sort keys named the old columns, so the page comes back without them
+					await fetchPage(0, msg.search, msg.sql);
+				} catch (err: any) {
+					postError(err.message || String(err));
+				}
+			} else if (msg?.type === 'requestColumnTypes') {
+				postColumnTypes();
+			} else if (msg?.type === 'setColumnType') {
+				try {
+					await document.setColumnType(msg.column, msg.columnType ?? '');
+					postColumnTypes();
+					await fetchPage(0, msg.search, msg.sql);
+				} catch (err: any) {
+					postError(err.message || String(err));
+				}
+			} else if (msg?.type === 'requestXmlInfo') {
+				postXmlInfo();
+			} else if (msg?.type === 'setXmlRecordPath') {
+				try {
+					await document.setXmlRecordPath(msg.recordPath);
+					postXmlInfo();
+					postColumnTypes();
+					await fetchPage(0, msg.search, msg.sql);
+				} catch (err: any) {
+					postError(err.message || String(err));
+				}
+			} else if (msg?.type === 'requestJsonInfo') {
+				postJsonInfo();
+			} else if (msg?.type === 'setJsonFlatten') {
+				try {
+					await document.setJsonFlatten(!!msg.flatten);
+					postJsonInfo();
+					postMessage({ type: 'editable', editable: document.canEdit });
+					await fetchPage(0, msg.search, msg.sql);
+				} catch (err: any) {
+					postError(err.message || String(err));
+				}
+			} else if (msg?.type === 'requestSheets') {
+				postSheets();
+			} else if (msg?.type === 'selectSheet' || msg?.type === 'setSheetOptions') {
+				try {
+					if (msg.type === 'selectSheet') {
+						await document.selectSheet(msg.name);
+					} else {
+						await document.setSheetOptions(msg.name, { headerRow: msg.headerRow ?? undefined, range: msg.range ?? undefined });
+					}
+					postSheets();
+					postColumnTypes();
+					await fetchPage(0, msg.search, msg.sql);
 				} catch (err: any) {
 					postError(err.message || String(err));
 				}
@@ -259,11 +1079,11 @@ class FlatFileEditorProvider implements vscode.CustomEditorProvider<FlatFileDocu
 				}
 		} else if (msg?.type === 'requestAllData') {
 			try {
-				const allData = await loadFileData(filePath, 0, Number.MAX_SAFE_INTEGER, msg.search, msg.sql);
+				const allData = await runQuery('Reading all rows', () => document.query(0, Number.MAX_SAFE_INTEGER, msg.search, msg.sql, msg.filters, msg.sort), data => data.total);
 				postMessage({ type: 'allData', data: JSON.parse(JSON.stringify(allData, (key, value) => typeof value === 'bigint' ? value.toString() : value)) });
 			} catch (err: any) {
 				console.log('Error in requestAllData:', err.message);
-				postError(err.message || String(err));
+				postQueryError(err);
 			}
 		} else if (msg?.type === 'save') {
 			try {
@@ -273,8 +1093,7 @@ class FlatFileEditorProvider implements vscode.CustomEditorProvider<FlatFileDocu
 				}
 
 				// Generate the content
-				const delim = type === 'csv' ? ',' : '\t';
-				const csv = (Papa as any).unparse(msg.rows, { fields: msg.columns, delimiter: delim });
+				const csv = toCsv(msg.columns, msg.rows, document.csvDialectFor(document.uri), document.csvLayoutFor(document.uri));
 				const tempFilePath = filePath + '.tmp';
 				await vscode.workspace.fs.writeFile(vscode.Uri.file(tempFilePath), Buffer.from(csv));
 				postMessage({ type: 'savePrepared', tempFile: tempFilePath });
@@ -319,134 +1138,79 @@ class FlatFileEditorProvider implements vscode.CustomEditorProvider<FlatFileDocu
 
 				await vscode.workspace.fs.rename(tempUri, vscode.Uri.file(filePath), { overwrite: true });
 				console.log(`[Shadow Save] Manually finalized save for: ${filePath}`);
-				document.makeEdit(msg.columns, msg.rows);
+				await document.reloadFromDisk();
 				vscode.window.showInformationMessage('File saved successfully.');
 				postMessage({ type: 'saveComplete' });
 			} catch (err: any) {
 				console.error('[Finalize Save] Error:', err);
 				postError(err.message || 'Failed to finalize save.');
 			}
-		} else if (msg?.type === 'generateAI') {
-				const { provider, apiKey, model, prompt } = msg;
-				if (!apiKey || !prompt) {
+		} else if (msg?.type === 'requestAiProviders') {
+				await postAiProviders();
+			} else if (msg?.type === 'setAiKey') {
+				try {
+					await this.aiKeys.set(String(msg.provider), String(msg.apiKey ?? ''));
+					await postAiProviders();
+				} catch (err: any) {
+					postMessage({ type: 'aiError', message: `Could not store the API key: ${err.message || String(err)}` });
+				}
+			} else if (msg?.type === 'generateAI') {
+				const { prompt } = msg;
+				const ai = await resolveAi(msg, 'aiError');
+				if (!ai) return;
+				if (!prompt) {
 					postMessage({ type: 'aiError', message: 'Missing API key or prompt' });
 					return;
 				}
 				try {
-					// Optionally store the API key securely
-
-					let aiText = '';
-
-					if (provider === 'openai') {
-						const response = await fetch('https://api.openai.com/v1/chat/completions', {
-							method: 'POST',
-							headers: {
-								'Content-Type': 'application/json',
-								'Authorization': `Bearer ${apiKey}`
-							},
-							body: JSON.stringify({
-								model: model,
-								messages: [
-									{
-										role: 'system',
-										content: 'You are a SQL expert. First, check if the user\'s request is related to data analysis, querying, or database operations. If the request is NOT related to data (e.g., general questions, coding help, math problems, etc.), respond with exactly: "Hey! Dude please ask question related to data". If the request IS related to data, generate a valid SQL query based on the user\'s description. Always use "data" as the table name in your SQL queries. Return only the SQL query without any explanation or markdown formatting.'
-									},
-									{
-										role: 'user',
-										content: prompt
-									}
-								],
-								max_tokens: 500,
-								temperature: 0.1
-							}),
-						});
-
-						if (!response.ok) {
-							let errorMsg = 'Failed to connect to OpenAI. Please check your API key and internet connection.';
-							if (response.status === 401) {
-								errorMsg = 'Invalid OpenAI API key. Please check your key and try again.';
-							} else if (response.status === 400) {
-								errorMsg = 'Invalid model or request. Please check your model selection.';
-							}
-							try {
-								const errorData = await response.json() as any;
-								if (errorData.error && errorData.error.message) {
-									if (errorData.error.code === 'invalid_api_key') {
-										errorMsg = 'Invalid OpenAI API key. Please check your key and try again.';
-									} else if (errorData.error.message.includes('model')) {
-										errorMsg = 'Invalid model selected. Please choose a valid OpenAI model.';
-									}
-								}
-							} catch (parseErr) {
-								// Use default message
-							}
-							throw new Error(errorMsg);
-						}
-
-						const data = await response.json() as any;
-						aiText = data.choices?.[0]?.message?.content?.trim() || 'No response from AI';
-					} else if (provider === 'gemini') {
-						const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`, {
-							method: 'POST',
-							headers: {
-								'Content-Type': 'application/json',
-							},
-							body: JSON.stringify({
-								contents: [{
-									parts: [{
-										text: `You are a SQL expert. First, check if the user's request is related to data analysis, querying, or database operations. If the request is NOT related to data (e.g., general questions, coding help, math problems, etc.), respond with exactly: "Hey! Dude please ask question related to data". If the request IS related to data, generate a valid SQL query based on the user's description. Always use "data" as the table name in your SQL queries. Return only the SQL query without any explanation or markdown formatting.\n\nUser request: ${prompt}`
-									}]
-								}],
-								generationConfig: {
-									temperature: 0.1,
-									maxOutputTokens: 500,
-								}
-							}),
-						});
-
-						if (!response.ok) {
-							let errorMsg = 'Failed to connect to Gemini. Please check your API key and internet connection.';
-							if (response.status === 401 || response.status === 403) {
-								errorMsg = 'Invalid Gemini API key. Please check your key and try again.';
-							} else if (response.status === 400) {
-								errorMsg = 'Invalid model or request. Please check your model selection.';
-							}
-							try {
-								const errorData = await response.json() as any;
-								if (errorData.error && errorData.error.message) {
-									if (errorData.error.code === 'invalid_key' || errorData.error.message.includes('key')) {
-										errorMsg = 'Invalid Gemini API key. Please check your key and try again.';
-									} else if (errorData.error.message.includes('model')) {
-										errorMsg = 'Invalid model selected. Please choose a valid Gemini model.';
-									}
-								}
-							} catch (parseErr) {
-								// Use default message
-							}
-							throw new Error(errorMsg);
-						}
-
-						const data = await response.json() as any;
-						aiText = data.candidates?.[0]?.content?.parts?.[0]?.text || 'No response from AI';
-					} else {
-						throw new Error('Unsupported provider. Please select OpenAI or Gemini.');
+					const aiSettings = vscode.workspace.getConfiguration('flatFileReader');
+					const tables = await session.listTables();
+					// Sample rows help the model with value formats, but the user may not want to send them
+					const sampleCount = msg.includeSamples === false ? 0 : aiSettings.get<number>(AI_SAMPLE_ROWS_SETTING, 3);
+					const samples = new Map<string, Record<string, unknown>[]>();
+					for (const table of sampleCount > 0 ? tables : []) {
+						samples.set(table.name, await session.sampleRows(table.name, sampleCount));
 					}
-
-					// Clean the AI response to extract only the SQL query
-					aiText = aiText.trim();
-
-					postMessage({ type: 'aiResponse', response: aiText });
+					const result = await generateSql({
+						...ai,
+						prompt,
+						schema: describeSchema(tables, samples),
+						maxRepairs: Math.max(0, aiSettings.get<number>(AI_REPAIR_ATTEMPTS_SETTING, 2)),
+						validate: validateGeneratedSql,
+						onProgress: (message) => postMessage({ type: 'aiProgress', message })
+					});
+					postMessage({ type: 'aiResponse', response: result.sql, repairs: result.repairs, error: result.error });
 				} catch (err: any) {
 					console.error('AI generation error:', err);
-					let userFriendlyMsg = err.message || 'Failed to generate AI response. Please check your settings and try again.';
-					if (err.message.includes('API key')) {
-						userFriendlyMsg = 'Invalid API key. Please check your API key and try again.';
-					} else if (err.message.includes('model')) {
-						userFriendlyMsg = 'Invalid model selected. Please choose a valid model.';
-					} else if (err.message.includes('connect')) {
-						userFriendlyMsg = 'Unable to connect to AI service. Please check your internet connection.';
-					}
-					postMessage({ type: 'aiError', message: userFriendlyMsg });
+					postMessage({ type: 'aiError', message: err instanceof AiError ? err.message : err.message || 'Failed to generate AI response. Please check your settings and try again.' });
+				}
+			} else if (msg?.type === 'explainResult') {
+				const ai = await resolveAi(msg, 'aiExplanationError');
+				if (!ai) return;
+				try {
+					// Only aggregates of the result leave the machine, never its rows
+					const includeValues = msg.includeSamples !== false && vscode.workspace.getConfiguration('flatFileReader').get<number>(AI_SAMPLE_ROWS_SETTING, 3) > 0;
+					const { profiles, where } = await runQuery('Summarizing result', async () => {
+						await document.syncTable();
+						return {
+							profiles: await session.profile(msg.search, msg.sql, msg.filters),
+							where: await session.filterClause(msg.search, msg.sql, msg.filters)
+						};
+					});
+					postMessage({ type: 'aiProgress', message: 'Asking the model…' });
+					const explanation = await explainResult({
+						...ai,
+						sql: msg.sql || 'SELECT * FROM data',
+						search: msg.search,
+						where,
+						schema: describeSchema(await session.listTables()),
+						statistics: describeProfiles(profiles, includeValues),
+						validate: validateGeneratedSql
+					});
+					postMessage({ type: 'aiExplanation', explanation });
+				} catch (err: any) {
+					console.error('AI explanation error:', err);
+					postMessage({ type: 'aiExplanationError', message: err.message || String(err) });
 				}
 			} else if (msg?.type === 'openDashboard') {
 				// Dashboard is handled in the same webview as a modal, no backend action needed
@@ -457,8 +1221,15 @@ class FlatFileEditorProvider implements vscode.CustomEditorProvider<FlatFileDocu
 		webviewPanel.webview.onDidReceiveMessage(messageHandler);
 
 		// Clean up when webview is disposed
+		webviewPanel.onDidChangeViewState(e => {
+			if (e.webviewPanel.active) this.status.focus(statusKey);
+		});
+
 		webviewPanel.onDidDispose(() => {
 			isDisposed = true;
+			running.forEach(stop => stop('Editor closed.'));
+			this.status.release(statusKey);
+			contentListener.dispose();
 			// Remove message handler to prevent memory leaks
 		});
 	}
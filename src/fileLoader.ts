@@ -1,547 +1,752 @@
-import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as duckdb from 'duckdb';
-import * as ExcelJS from 'exceljs';
-import * as Papa from 'papaparse';
-import { XMLParser } from 'fast-xml-parser';
-
-interface PageData {
+import { CsvDialect, detectCsvDialect } from './csvDialect';
+import { allAsync, createTableFromValues, dropRelation, quoteIdent, relationExists, runAsync, sqlString } from './duckdbUtils';
+import { ExcelOptions, SheetInfo, SheetOptions, importSheetTable, importWorkbook, reimportSheet } from './excelImport';
+import { COLUMN_TYPES, ColumnTypeOverrides } from './typeInference';
+import { XmlImportResult, XmlOptions, importXml } from './xmlImport';
+import { JsonImportResult, JsonOptions, importJson, readJsonRecords } from './jsonImport';
+import { ColumnProfile, profileQuery } from './profiling';
+import { SqlFunction, listFunctions } from './functionCatalog';
+import { QueryPlan, explainQuery } from './queryPlan';
+import { ChartData, ChartSpec, aggregateQuery } from './chartAggregation';
+import { ExportOptions, PARQUET_COMPRESSIONS, ParquetCompression, exportQuery } from './exporters';
+import { ColumnFilter, compileFilters } from './filters';
+import { SortKey, compileOrderBy } from './sorting';
+
+export interface PageData {
 	columns: string[];
 	rows: any[][];
 	offset: number;
 	limit: number;
 	total: number;
+	// DuckDB type of each column, parallel to `columns`
+	types?: string[];
+	// Condition compiled from the column filters, shown so it can be copied into the SQL
+	where?: string;
+}
+
+export interface SessionOptions {
+	// Dialect used to read CSV/TSV files; detected from the file when not given
+	csvDialect?: CsvDialect;
+	// Active worksheet and per-sheet header row and range for Excel workbooks
+	excel?: ExcelOptions;
+	// Which repeating element of an XML file holds the records
+	xml?: XmlOptions;
+	// Whether nested JSON is flattened into dotted columns and exploded rows
+	json?: JsonOptions;
+	// User-chosen column types for Excel and XML imports, which are otherwise inferred
+	columnTypes?: ColumnTypeOverrides;
+	// Friendly names queries see for `data` columns, keyed by the original header
+	columnAliases?: Record<string, string>;
 }
 
-interface ExportRequest {
+export interface TableInfo {
+	columns: string[];
+	total: number;
+	// DuckDB type of each column, parallel to `columns`
+	types: string[];
+}
+
+export interface AttachedTable {
+	alias: string;
 	filePath: string;
-	outPath: string;
-	search?: string;
-	sql?: string;
+	// Relations created for the file: the alias itself, then any linked child tables
+	tables: string[];
+}
+
+export interface TableSchema {
+	name: string;
+	// File the table was read from; absent for tables of the opened file
+	filePath?: string;
+	columns: Array<{ name: string; type: string }>;
 }
 
+const ALIAS_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
 function detectFileType(filePath: string): 'csv' | 'tsv' | 'parquet' | 'excel' | 'json' | 'xml' {
 	const ext = path.extname(filePath).toLowerCase();
 	if (ext === '.csv') return 'csv';
 	if (ext === '.tsv') return 'tsv';
 	if (ext === '.parquet' || ext === '.pq') return 'parquet';
 	if (ext === '.xlsx' || ext === '.xls') return 'excel';
-	if (ext === '.json') return 'json';
+	if (ext === '.json' || ext === '.jsonl' || ext === '.ndjson') return 'json';
 	if (ext === '.xml') return 'xml';
 	return 'csv'; // default
 }
 
-function sanitizeColumnName(name: string): string {
-	return name.replace(/\s+/g, '_');
-}
+/**
+ * A long-lived DuckDB connection bound to one open file.
+ *
+ * The file is imported into the `data` table on first use and every later
+ * page, search or custom query runs against that table instead of re-reading
+ * the file.
+ */
+export class FileSession {
+	private readonly db: duckdb.Database;
+	private readonly con: duckdb.Connection;
+	private loading: Promise<void> | null = null;
+	private closed = false;
+	private sheetList: SheetInfo[] = [];
+	private xmlResult: XmlImportResult | null = null;
+	private jsonResult: JsonImportResult | null = null;
+	private attached: AttachedTable[] = [];
+
+	constructor(public readonly filePath: string, private readonly options: SessionOptions = {}) {
+		this.db = new duckdb.Database(':memory:');
+		this.con = this.db.connect();
+	}
 
-async function loadWithDuckDB(filePath: string, offset: number, limit: number, search?: string, sql?: string): Promise<PageData> {
-	return new Promise((resolve, reject) => {
-		const db = new duckdb.Database(':memory:');
-		const con = db.connect();
-		const absPath = path.resolve(filePath).replace(/\\/g, '/').replace(/'/g, "''");
-
-		let registerQuery = '';
-		const ext = path.extname(filePath).toLowerCase();
-		if (ext === '.csv') {
-			registerQuery = `CREATE TABLE data AS SELECT * FROM read_csv('${absPath}', delim = ',')`;
-		} else if (ext === '.tsv') {
-			registerQuery = `CREATE TABLE data AS SELECT * FROM read_csv('${absPath}', delim = '\t')`;
-		} else if (ext === '.parquet' || ext === '.pq') {
-			registerQuery = `CREATE TABLE data AS SELECT * FROM parquet_scan('${absPath}')`;
-		} else if (ext === '.json') {
-			registerQuery = `CREATE TABLE data AS SELECT * FROM read_json('${absPath}')`;
-		} else {
-			registerQuery = `CREATE TABLE data AS SELECT * FROM read_csv_auto('${absPath}')`;
+	load(): Promise<void> {
+		if (this.closed) {
+			return Promise.reject(new Error('The DuckDB session for this file has been closed.'));
+		}
+		if (!this.loading) {
+			this.loading = this.configure().then(() => this.importFile()).catch((err) => {
+				// Allow the next request to retry the import
+				this.loading = null;
+				throw err;
+			});
 		}
+		return this.loading;
+	}
 
-		console.log('DuckDB registerQuery:', registerQuery);
-		console.log('Query parameters - offset:', offset, 'limit:', limit);
-		con.run(registerQuery, (err: Error | null) => {
-			if (err) {
-				console.error('DuckDB registerQuery error:', err);
-				return reject(err);
-			}
+	/** Drops the imported table and reads the file again, e.g. after a save or revert. */
+	async reload(): Promise<void> {
+		await this.loading?.catch(() => undefined);
+		this.loading = null;
+		await dropRelation(this.con, 'data');
+		for (const sheet of this.sheetList) {
+			await dropRelation(this.con, sheet.table);
+		}
+		for (const table of [...this.xmlResult?.childTables ?? [], ...this.jsonResult?.tables ?? []]) {
+			await dropRelation(this.con, table);
+		}
+		this.sheetList = [];
+		this.xmlResult = null;
+		this.jsonResult = null;
+		await this.load();
+	}
 
-			// After table creation, check row count to verify data loaded
-			con.all(`SELECT COUNT(*) as count FROM data`, (err: Error | null, countRows: any[]) => {
-				if (err) {
-					console.error('DuckDB count after table creation error:', err);
-				} else {
-					console.log('DuckDB row count after table creation:', countRows[0].count);
-				}
-			});
+	/** Other files registered as extra tables next to `data`, in the order they were attached. */
+	get attachments(): AttachedTable[] {
+		return this.attached.map(a => ({ ...a, tables: [...a.tables] }));
+	}
 
-			let query: string;
-			let hasSearch = false;
-			if (sql && sql.trim()) {
-				query = sql.replace(/\s+/g, ' ').trim();
-				console.log('Using custom SQL query:', query);
-			} else {
-				if (search && search.trim()) {
-					hasSearch = true;
-					const needle = search.trim().replace(/'/g, "''");
-					con.all(`DESCRIBE data`, (err: Error | null, colRows: any[]) => {
-						if (err) {
-							console.error('DuckDB column fetch error:', err);
-							return reject(err);
-						}
-						const rawColumns = colRows.map((row: any) => row.column_name);
-						const columns = rawColumns.map(sanitizeColumnName);
-						const conditions = columns.map((col: string) => `${col} LIKE '%${needle}%'`).join(' OR ');
-						query = `SELECT * FROM data WHERE ${conditions} LIMIT ${limit} OFFSET ${offset}`;
-						console.log('Constructed query with search:', query);
-						executeQuery();
-					});
-				} else {
-					query = `SELECT * FROM data LIMIT ${limit} OFFSET ${offset}`;
-					console.log('Constructed query without search:', query);
-				}
-			}
+	/** Imports another file as table `alias` so queries can join it with `data`. */
+	async attachFile(alias: string, filePath: string): Promise<AttachedTable> {
+		if (!ALIAS_PATTERN.test(alias)) {
+			throw new Error(`"${alias}" is not a valid table name. Use letters, digits and underscores, starting with a letter.`);
+		}
+		await this.load();
+		if (await relationExists(this.con, alias)) {
+			throw new Error(`A table named "${alias}" already exists.`);
+		}
 
-			if (!hasSearch) {
-				executeQuery();
-			}
+		const tables = await importAttachment(this.con, filePath, alias);
+		const attachment: AttachedTable = { alias, filePath, tables };
+		this.attached.push(attachment);
+		return { ...attachment, tables: [...tables] };
+	}
 
-			function executeQuery() {
-				const countQuery = `SELECT COUNT(*) as total FROM data`;
-				con.all(countQuery, (err: Error | null, countRows: any[]) => {
-					if (err) {
-						console.error('DuckDB count error:', err);
-						return reject(err);
-					}
-					const total = typeof countRows[0].total === 'bigint' ? Number(countRows[0].total) : countRows[0].total;
-
-					const columnQuery = `DESCRIBE data`;
-					con.all(columnQuery, (err: Error | null, colRows: any[]) => {
-						if (err) {
-							console.error('DuckDB column query error:', err);
-							return reject(err);
-						}
-						const rawColumns = colRows.map((row: any) => row.column_name);
-						const columns = rawColumns.map(sanitizeColumnName);
-
-						con.all(query, (err: Error | null, rows: any[]) => {
-							if (err) {
-								console.error('DuckDB data query error:', err);
-								return reject(err);
-							}
-							console.log('DuckDB rows:', rows);
-
-							// Get columns from query result instead of original table
-							let queryColumns: string[];
-							if (rows.length > 0) {
-								queryColumns = Object.keys(rows[0]).map(sanitizeColumnName);
-							} else {
-								// If no rows, try to get columns from a LIMIT 0 query
-								con.all(`${query} LIMIT 0`, (err: Error | null, emptyRows: any[]) => {
-									if (err) {
-										console.error('DuckDB column query error:', err);
-										return reject(err);
-									}
-									if (emptyRows.length > 0) {
-										queryColumns = Object.keys(emptyRows[0]).map(sanitizeColumnName);
-									} else {
-										queryColumns = [];
-									}
-									returnData(queryColumns, rows);
-								});
-								return;
-							}
-
-							function returnData(cols: string[], dataRows: any[]) {
-								const processedRows = dataRows.map((row: any) => cols.map((col: string) => {
-									const value = row[col];
-									return typeof value === 'bigint' ? value.toString() : value;
-								}));
-								resolve({
-									columns: cols,
-									rows: processedRows,
-									offset,
-									limit,
-									total
-								});
-							}
-
-							returnData(queryColumns, rows);
-						});
-					});
-				});
-			}
-		});
-	});
-}
+	async detachFile(alias: string): Promise<void> {
+		const attachment = this.attached.find(a => a.alias === alias);
+		if (!attachment) {
+			throw new Error(`No attached table named "${alias}".`);
+		}
+		for (const table of attachment.tables) {
+			await dropRelation(this.con, table);
+		}
+		this.attached = this.attached.filter(a => a !== attachment);
+	}
 
-async function loadWithExcelJS(filePath: string, offset: number, limit: number, search?: string, sql?: string): Promise<PageData> {
-	return new Promise(async (resolve, reject) => {
-		try {
-			const workbook = new ExcelJS.Workbook();
-			await workbook.xlsx.readFile(filePath);
-			const worksheet = workbook.worksheets[0];
-			const rows: any[][] = [];
-			worksheet.eachRow((row) => {
-				// Skip first element in row.values because exceljs rows are 1-based indexed
-				rows.push((row.values as any[]).slice(1));
+	/** Columns of `data`, every attached table and the tables and views scripts created, for schema lists and prompts. */
+	async listTables(): Promise<TableSchema[]> {
+		await this.load();
+		const entries: Array<{ name: string; filePath?: string }> = [{ name: 'data' }];
+		for (const attachment of this.attached) {
+			attachment.tables.forEach(name => entries.push({ name, filePath: attachment.filePath }));
+		}
+		// Sheet, child and JSON tables are reached through `data` or already listed, so only user-made relations are added
+		const internal = new Set([
+			...entries.map(e => e.name.toLowerCase()),
+			...this.sheetList.map(s => s.table.toLowerCase()),
+			...(this.xmlResult?.childTables ?? []).map(t => t.toLowerCase()),
+			...(this.jsonResult?.tables ?? []).map(t => t.toLowerCase())
+		]);
+		const created = await allAsync(this.con, `SELECT table_name FROM information_schema.tables WHERE table_schema = 'main' ORDER BY table_name`);
+		for (const row of created) {
+			const name = String(row.table_name);
+			if (!internal.has(name.toLowerCase())) entries.push({ name });
+		}
+		const schemas: TableSchema[] = [];
+		for (const entry of entries) {
+			// `data` is listed under the aliased names queries see
+			const relation = entry.name === 'data' ? `${await aliasCte(this.con, this.options.columnAliases)}SELECT * FROM data` : quoteIdent(entry.name);
+			const colRows = await allAsync(this.con, `DESCRIBE ${relation}`);
+			schemas.push({
+				...entry,
+				columns: colRows.map((row: any) => ({ name: String(row.column_name), type: String(row.column_type) }))
 			});
+		}
+		return schemas;
+	}
 
-			if (rows.length === 0) {
-				resolve({ columns: [], rows: [], offset, limit, total: 0 });
-				return;
-			}
+	/** The first rows of a table listed by `listTables`, e.g. as examples for the AI prompt. */
+	async sampleRows(table: string, limit: number): Promise<Record<string, unknown>[]> {
+		await this.load();
+		const relation = table === 'data' ? `${await aliasCte(this.con, this.options.columnAliases)}SELECT * FROM data` : `SELECT * FROM ${quoteIdent(table)}`;
+		return allAsync(this.con, `${relation} LIMIT ${Math.max(0, Math.floor(limit))}`);
+	}
 
-			const rawColumns = rows[0];
-			const columns = rawColumns.map(sanitizeColumnName);
-			const dataRows = rows.slice(1);
-
-			// Now use DuckDB
-			const db = new duckdb.Database(':memory:');
-			const con = db.connect();
-
-			// Create table
-			const createTableQuery = `CREATE TABLE data (${columns.map(col => `"${col}" VARCHAR`).join(', ')})`;
-			con.run(createTableQuery, (err: Error | null) => {
-				if (err) {
-					console.error('DuckDB create table error:', err);
-					return reject(err);
-				}
-
-				// Insert data
-				if (dataRows.length > 0) {
-					const insertQuery = `INSERT INTO data VALUES ${dataRows.map(row => `(${row.map(val => `'${String(val || '').replace(/'/g, "''")}'`).join(', ')})`).join(', ')}`;
-					con.run(insertQuery, (err: Error | null) => {
-						if (err) {
-							console.error('DuckDB insert error:', err);
-							return reject(err);
-						}
-						runQuery();
-					});
-				} else {
-					runQuery();
-				}
-
-				function runQuery() {
-					let query: string;
-					if (sql && sql.trim()) {
-						query = sql.replace(/\s+/g, ' ').trim();
-						console.log('Using custom SQL query:', query);
-					} else {
-						if (search && search.trim()) {
-							const needle = search.trim().replace(/'/g, "''");
-							const conditions = columns.map((col: string) => `"${col}" LIKE '%${needle}%'`).join(' OR ');
-							query = `SELECT * FROM data WHERE ${conditions} LIMIT ${limit} OFFSET ${offset}`;
-							console.log('Constructed query with search:', query);
-						} else {
-							query = `SELECT * FROM data LIMIT ${limit} OFFSET ${offset}`;
-							console.log('Constructed query without search:', query);
-						}
-					}
-
-					const countQuery = `SELECT COUNT(*) as total FROM data`;
-					con.all(countQuery, (err: Error | null, countRows: any[]) => {
-						if (err) {
-							console.error('DuckDB count error:', err);
-							return reject(err);
-						}
-						const total = typeof countRows[0].total === 'bigint' ? Number(countRows[0].total) : countRows[0].total;
-
-						con.all(query, (err: Error | null, rows: any[]) => {
-							if (err) {
-								console.error('DuckDB data query error:', err);
-								return reject(new Error('Hey! Dude please enter correct SQL..'));
-							}
-							console.log('DuckDB rows:', rows);
-
-							// Get columns from query result instead of original table
-							let queryColumns: string[];
-							if (rows.length > 0) {
-								queryColumns = Object.keys(rows[0]).map(sanitizeColumnName);
-							} else {
-								// If no rows, try to get columns from a LIMIT 0 query
-								con.all(`${query} LIMIT 0`, (err: Error | null, emptyRows: any[]) => {
-									if (err) {
-										console.error('DuckDB column query error:', err);
-										return reject(err);
-									}
-									if (emptyRows.length > 0) {
-										queryColumns = Object.keys(emptyRows[0]).map(sanitizeColumnName);
-									} else {
-										queryColumns = [];
-									}
-									returnData(queryColumns, rows);
-								});
-								return;
-							}
-
-							function returnData(cols: string[], dataRows: any[]) {
-								const processedRows = dataRows.map((row: any) => cols.map((col: string) => {
-									const value = row[col];
-									return typeof value === 'bigint' ? value.toString() : value;
-								}));
-								resolve({
-									columns: cols,
-									rows: processedRows,
-									offset,
-									limit,
-									total
-								});
-							}
-
-							returnData(queryColumns, rows);
-						});
-					});
-				}
-			});
-		} catch (e) {
-			reject(e);
+	/** Worksheets of an Excel file, each imported as its own table; empty for other formats. */
+	get sheets(): SheetInfo[] {
+		return this.sheetList.map(sheet => ({ ...sheet }));
+	}
+
+	get activeSheet(): string | undefined {
+		return this.options.excel?.activeSheet;
+	}
+
+	/** Points the `data` view at another worksheet without re-reading the workbook. */
+	async selectSheet(name: string): Promise<void> {
+		await this.load();
+		const sheet = this.findSheet(name);
+		await runAsync(this.con, `CREATE OR REPLACE VIEW data AS SELECT * FROM ${quoteIdent(sheet.table)}`);
+		this.options.excel = { ...this.options.excel, activeSheet: name };
+	}
+
+	async setSheetOptions(name: string, sheetOptions: SheetOptions): Promise<void> {
+		await this.load();
+		const sheet = this.findSheet(name);
+		const updated = await reimportSheet(this.con, this.filePath, sheet, sheetOptions, this.options.columnTypes?.[sheet.table]);
+		this.sheetList = this.sheetList.map(s => s.name === name ? updated : s);
+		this.options.excel = { ...this.options.excel, sheets: { ...this.options.excel?.sheets, [name]: { ...sheetOptions } } };
+	}
+
+	/** Element tree, chosen record path and child tables of an XML file; null for other formats. */
+	get xmlInfo(): XmlImportResult | null {
+		return this.xmlResult ? { ...this.xmlResult } : null;
+	}
+
+	async setXmlRecordPath(recordPath: string): Promise<void> {
+		this.options.xml = { ...this.options.xml, recordPath };
+		await this.reload();
+	}
+
+	/** Detected shape, extra tables and flatten mode of a JSON file; null for other formats. */
+	get jsonInfo(): JsonImportResult | null {
+		return this.jsonResult ? { ...this.jsonResult } : null;
+	}
+
+	async setJsonFlatten(flatten: boolean): Promise<void> {
+		this.options.json = { ...this.options.json, flatten };
+		await this.reload();
+	}
+
+	/** Column types can be overridden where they were inferred by the extension rather than DuckDB. */
+	get supportsColumnTypes(): boolean {
+		const type = detectFileType(this.filePath);
+		return type === 'excel' || type === 'xml';
+	}
+
+	/** Type overrides of the `data` columns, keyed by the names shown in the grid. */
+	get columnTypeOverrides(): Record<string, string> {
+		const overrides: Record<string, string> = {};
+		for (const [column, type] of Object.entries(this.options.columnTypes?.[this.dataTable()] ?? {})) {
+			overrides[this.aliasFor(column)] = type;
 		}
-	});
-}
+		return overrides;
+	}
 
-async function loadWithXML(filePath: string, offset: number, limit: number, search?: string, sql?: string): Promise<PageData> {
-	return new Promise(async (resolve, reject) => {
-		try {
-			const xmlData = fs.readFileSync(filePath, 'utf-8');
-			const parser = new XMLParser({
-				ignoreAttributes: false,
-				attributeNamePrefix: '@_',
-				textNodeName: '#text'
-			});
-			const parsed = parser.parse(xmlData);
+	/** Overrides the type of a `data` column and re-imports it; an empty type restores inference. */
+	async setColumnType(shownName: string, type: string): Promise<void> {
+		const column = this.originalName(shownName);
+		if (!this.supportsColumnTypes) {
+			throw new Error('Column types can only be changed for Excel and XML files.');
+		}
+		if (type && !COLUMN_TYPES.includes(type as any)) {
+			throw new Error(`Unsupported column type "${type}".`);
+		}
+		await this.load();
+		const table = this.dataTable();
+		const overrides = { ...this.options.columnTypes?.[table] };
+		if (type) {
+			overrides[column] = type;
+		} else {
+			delete overrides[column];
+		}
+		this.options.columnTypes = { ...this.options.columnTypes, [table]: overrides };
 
-			// Find the root, skipping XML declarations and processing instructions
-			const rootKeys = Object.keys(parsed).filter(key => !key.startsWith('?'));
-			if (rootKeys.length === 0) {
-				resolve({ columns: [], rows: [], offset, limit, total: 0 });
-				return;
-			}
-			const rootKey = rootKeys[0];
-			const rootObj = parsed[rootKey];
+		const sheet = this.sheetList.find(s => s.table === table);
+		if (sheet) {
+			await this.setSheetOptions(sheet.name, this.options.excel?.sheets?.[sheet.name] ?? {});
+		} else {
+			await this.reload();
+		}
+	}
 
-			// Find the array of items
-			let items: any[];
-			if (Array.isArray(rootObj)) {
-				items = rootObj;
-			} else {
-				const subKeys = Object.keys(rootObj);
-				const arrayKey = subKeys.find(key => Array.isArray(rootObj[key]));
-				if (arrayKey) {
-					items = rootObj[arrayKey];
-				} else {
-					// Single item or flat structure
-					items = [rootObj];
-				}
+	get columnAliases(): Record<string, string> {
+		return { ...this.options.columnAliases };
+	}
+
+	/**
+	 * Sets the friendly names queries use for `data` columns. The table keeps its
+	 * original headers, so saves write them unchanged.
+	 */
+	async setColumnAliases(aliases: Record<string, string>): Promise<void> {
+		await this.load();
+		const colRows = await allAsync(this.con, 'DESCRIBE data');
+		const columns: string[] = colRows.map((row: any) => String(row.column_name));
+		const cleaned: Record<string, string> = {};
+		for (const [column, alias] of Object.entries(aliases)) {
+			const name = (alias ?? '').trim();
+			if (!name || name === column) continue;
+			if (!columns.includes(column)) {
+				throw new Error(`Cannot alias unknown column "${column}".`);
 			}
+			cleaned[column] = name;
+		}
+		// DuckDB compares identifiers without regard to case
+		const names = columns.map(col => (cleaned[col] ?? col).toLowerCase());
+		const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+		if (duplicate !== undefined) {
+			throw new Error(`More than one column would be named "${columns.map(col => cleaned[col] ?? col)[names.indexOf(duplicate)]}".`);
+		}
+		this.options.columnAliases = cleaned;
+	}
+
+	/** Name a `data` column is shown and queried under. */
+	aliasFor(column: string): string {
+		return this.options.columnAliases?.[column] || column;
+	}
+
+	private originalName(shownName: string): string {
+		const entry = Object.entries(this.options.columnAliases ?? {}).find(([, alias]) => alias === shownName);
+		return entry ? entry[0] : shownName;
+	}
+
+	/** Table the `data` view reads from: the active sheet or first JSON array table, otherwise `data` itself. */
+	private dataTable(): string {
+		const active = this.sheetList.find(s => s.name === this.options.excel?.activeSheet);
+		return active?.table ?? this.jsonResult?.tables[0] ?? 'data';
+	}
 
-			if (items.length === 0 || typeof items[0] !== 'object') {
-				resolve({ columns: [], rows: [], offset, limit, total: 0 });
-				return;
+	private findSheet(name: string): SheetInfo {
+		const sheet = this.sheetList.find(s => s.name === name);
+		if (!sheet) {
+			throw new Error(`Sheet "${name}" was not found in this workbook.`);
+		}
+		return sheet;
+	}
+
+	get csvDialect(): CsvDialect | undefined {
+		return this.options.csvDialect;
+	}
+
+	/** Re-imports a CSV/TSV file with the given dialect, or a freshly detected one when omitted. */
+	async setCsvDialect(dialect: CsvDialect | undefined): Promise<void> {
+		this.options.csvDialect = dialect ? { ...dialect } : undefined;
+		await this.reload();
+	}
+
+	/** Schema and row count only, without fetching any rows. */
+	async describe(): Promise<TableInfo> {
+		await this.load();
+		const colRows = await allAsync(this.con, 'DESCRIBE data');
+		const countRows = await allAsync(this.con, 'SELECT COUNT(*) AS total FROM data');
+		return {
+			columns: colRows.map((row: any) => String(row.column_name)),
+			total: Number(countRows[0].total),
+			types: colRows.map((row: any) => String(row.column_type))
+		};
+	}
+
+	/**
+	 * Replaces the rows behind `data` with edited ones, keeping its column names and types.
+	 * A Parquet view becomes an in-memory table until the file is reloaded.
+	 */
+	async replaceData(rows: any[][]): Promise<void> {
+		await this.load();
+		const table = this.dataTable();
+		const colRows = await allAsync(this.con, `DESCRIBE ${quoteIdent(table)}`);
+		const columns = colRows.map((row: any) => String(row.column_name));
+		const types = colRows.map((row: any) => String(row.column_type));
+		// CSV rows read for editing keep null markers as text, but the table holds them as nulls
+		const type = detectFileType(this.filePath);
+		const nulls = new Set(type === 'csv' || type === 'tsv' ? this.options.csvDialect?.nullStrings ?? [] : []);
+		const values = nulls.size > 0 ? rows.map(row => row.map(value => typeof value === 'string' && nulls.has(value) ? null : value)) : rows;
+		await dropRelation(this.con, table);
+		await createTableFromValues(this.con, table, columns, types, values);
+	}
+
+	/** For each value, whether it can be stored in a column of the paired type. */
+	async castable(checks: Array<{ value: string; type: string }>): Promise<boolean[]> {
+		await this.load();
+		const results: boolean[] = [];
+		for (let start = 0; start < checks.length; start += 200) {
+			const batch = checks.slice(start, start + 200);
+			const items = batch.map((c, i) => `TRY_CAST(${sqlString(c.value)} AS ${c.type}) IS NOT NULL AS ok${i}`);
+			const [row] = await allAsync(this.con, `SELECT ${items.join(', ')}`);
+			batch.forEach((_, i) => results.push(!!row[`ok${i}`]));
+		}
+		return results;
+	}
+
+	async query(offset: number, limit: number, search?: string, sql?: string, filters?: ColumnFilter[], sort?: SortKey[]): Promise<PageData> {
+		await this.load();
+		return queryData(this.con, offset, limit, search, sql, filters, sort, this.options.columnAliases);
+	}
+
+	/** DuckDB's functions with their signatures, for completion in the SQL editor. */
+	async functions(): Promise<SqlFunction[]> {
+		await this.load();
+		return listFunctions(this.con);
+	}
+
+	/**
+	 * Runs a statement that returns no rows to show, e.g. a CREATE VIEW from a script. The query of a
+	 * `CREATE VIEW|TABLE ... AS` gets the alias CTE, so it can use the same column names as a SELECT.
+	 */
+	async execute(sql: string): Promise<void> {
+		await this.load();
+		const match = CREATE_AS.exec(sql.trim().replace(/;+\s*$/, ''));
+		const cte = match ? await aliasCte(this.con, this.options.columnAliases) : '';
+		// A view keeps the CTE in its definition, so it goes on seeing the names it was written with
+		await runAsync(this.con, match && cte ? `${match[1]}${cte}SELECT * FROM (${match[2]}\n) AS q` : sql);
+	}
+
+	/** Binds a query without running it, so mistakes surface before it is paged. */
+	async checkQuery(sql: string): Promise<void> {
+		await this.load();
+		await allAsync(this.con, `DESCRIBE ${await aliasCte(this.con, this.options.columnAliases)}SELECT * FROM (${sql}\n) AS q`);
+	}
+
+	/** Every row of `data` under its original headers, for editing and saving. */
+	async readAll(): Promise<PageData> {
+		await this.load();
+		return queryData(this.con, 0, Number.MAX_SAFE_INTEGER);
+	}
+
+	/**
+	 * Every row of `data` for editing. CSV and TSV cells are the text in the file and JSON fields
+	 * are as parsed from it, so values nobody edits are saved back exactly as they were read.
+	 */
+	async readEditable(): Promise<{ columns: string[]; rows: any[][] }> {
+		await this.load();
+		const type = detectFileType(this.filePath);
+		if ((type === 'csv' || type === 'tsv') && this.options.csvDialect) {
+			const columns = (await allAsync(this.con, 'DESCRIBE data')).map((row: any) => String(row.column_name));
+			const rows = await allAsync(this.con, await csvSelect(this.con, this.filePath, this.options.csvDialect, true));
+			return { columns, rows: rows.map((row: any) => columns.map(col => row[col])) };
+		}
+		const data = await this.readAll();
+		const json = this.jsonResult;
+		const records = json && json.shape !== 'object' && !json.flatten ? readJsonRecords(this.filePath, json.shape) : null;
+		if (!records || records.length !== data.rows.length) return data;
+		return {
+			columns: data.columns,
+			rows: records.map((record, r) => data.columns.map((col, c) => {
+				const value = record[col] ?? null;
+				// Integers beyond double precision keep DuckDB's exact digits
+				return typeof value === 'number' && Number.isInteger(value) && !Number.isSafeInteger(value) ? data.rows[r][c] : value;
+			}))
+		};
+	}
+
+	/** The plan DuckDB picks for a query; with `analyze` the query runs and each operator is timed. */
+	async explain(sql: string, analyze: boolean): Promise<QueryPlan> {
+		await this.load();
+		const { query } = await filteredQuery(this.con, undefined, sql, undefined, undefined, this.options.columnAliases);
+		return explainQuery(this.con, query, analyze);
+	}
+
+	/** Writes the rows a page request with this search and SQL would see to `outPath`. */
+	async exportTo(outPath: string, options: ExportOptions, search?: string, sql?: string, filters?: ColumnFilter[], sort?: SortKey[]): Promise<void> {
+		await this.load();
+		const { query } = await filteredQuery(this.con, search, sql, filters, sort, this.options.columnAliases);
+		await this.withConnection(con => exportQuery(con, query, outPath, options));
+	}
+
+	/**
+	 * Writes `data` as Parquet with the column types DuckDB holds. When the session was opened on a
+	 * Parquet file, its compression codec and key-value metadata are carried over. Returns a note
+	 * for the user when the original compression could not be kept.
+	 */
+	async saveParquet(outPath: string): Promise<string | undefined> {
+		await this.load();
+		const options: ExportOptions = { format: 'parquet' };
+		let note: string | undefined;
+		if (detectFileType(this.filePath) === 'parquet') {
+			const source = sqlString(path.resolve(this.filePath).replace(/\\/g, '/'));
+			// The codec of most column chunks wins when a file mixes them
+			const codecs = (await allAsync(this.con, `SELECT lower(compression) AS codec, count(*) AS chunks FROM parquet_metadata(${source}) GROUP BY 1 ORDER BY chunks DESC, codec`))
+				.map((row: any) => String(row.codec));
+			const codec = codecs[0] as ParquetCompression | undefined;
+			if (codec && PARQUET_COMPRESSIONS.includes(codec)) {
+				options.compression = codec;
+				if (codecs.length > 1) note = `The file mixed ${codecs.join(', ')} compression; it was saved with ${codec} throughout.`;
+			} else {
+				options.compression = 'snappy';
+				if (codec) note = `The file's ${codecs.join(', ')} compression cannot be written; it was saved with snappy instead.`;
 			}
+			const metadata = await allAsync(this.con, `SELECT decode(key) AS key, decode(value) AS value FROM parquet_kv_metadata(${source})`);
+			options.kvMetadata = Object.fromEntries(metadata.map((row: any) => [String(row.key), String(row.value)]));
+		}
+		await this.withConnection(con => exportQuery(con, 'SELECT * FROM data', outPath, options));
+		return note;
+	}
 
-			// Flatten each item to a flat object
-			const flattenedItems = items.map((item: any) => flattenObject(item));
-
-			// Get all unique keys as columns
-			const allKeys = new Set<string>();
-			flattenedItems.forEach(item => Object.keys(item).forEach(key => allKeys.add(key)));
-			const columns = Array.from(allKeys).map(sanitizeColumnName);
-
-			// Convert to rows
-			const dataRows = flattenedItems.map(item => columns.map(col => item[col] || ''));
-
-			// Now use DuckDB
-			const db = new duckdb.Database(':memory:');
-			const con = db.connect();
-
-			// Create table
-			const createTableQuery = `CREATE TABLE data (${columns.map(col => `"${col}" VARCHAR`).join(', ')})`;
-			con.run(createTableQuery, (err: Error | null) => {
-				if (err) {
-					console.error('DuckDB create table error:', err);
-					return reject(err);
-				}
-
-				// Insert data
-				if (dataRows.length > 0) {
-					const insertQuery = `INSERT INTO data VALUES ${dataRows.map(row => `(${row.map(val => `'${String(val || '').replace(/'/g, "''")}'`).join(', ')})`).join(', ')}`;
-					con.run(insertQuery, (err: Error | null) => {
-						if (err) {
-							console.error('DuckDB insert error:', err);
-							return reject(err);
-						}
-						runQuery();
-					});
-				} else {
-					runQuery();
-				}
-
-				function runQuery() {
-					let query: string;
-					if (sql && sql.trim()) {
-						query = sql.replace(/\s+/g, ' ').trim();
-						console.log('Using custom SQL query:', query);
-					} else {
-						if (search && search.trim()) {
-							const needle = search.trim().replace(/'/g, "''");
-							const conditions = columns.map((col: string) => `"${col}" LIKE '%${needle}%'`).join(' OR ');
-							query = `SELECT * FROM data WHERE ${conditions} LIMIT ${limit} OFFSET ${offset}`;
-							console.log('Constructed query with search:', query);
-						} else {
-							query = `SELECT * FROM data LIMIT ${limit} OFFSET ${offset}`;
-							console.log('Constructed query without search:', query);
-						}
-					}
-
-					const countQuery = `SELECT COUNT(*) as total FROM data`;
-					con.all(countQuery, (err: Error | null, countRows: any[]) => {
-						if (err) {
-							console.error('DuckDB count error:', err);
-							return reject(err);
-						}
-						const total = typeof countRows[0].total === 'bigint' ? Number(countRows[0].total) : countRows[0].total;
-
-						con.all(query, (err: Error | null, rows: any[]) => {
-							if (err) {
-								console.error('DuckDB data query error:', err);
-								return reject(new Error('Hey! Dude please enter correct SQL..'));
-							}
-							console.log('DuckDB rows:', rows);
-
-							// Get columns from query result instead of original table
-							let queryColumns: string[];
-							if (rows.length > 0) {
-								queryColumns = Object.keys(rows[0]).map(sanitizeColumnName);
-							} else {
-								// If no rows, try to get columns from a LIMIT 0 query
-								con.all(`${query} LIMIT 0`, (err: Error | null, emptyRows: any[]) => {
-									if (err) {
-										console.error('DuckDB column query error:', err);
-										return reject(err);
-									}
-									if (emptyRows.length > 0) {
-										queryColumns = Object.keys(emptyRows[0]).map(sanitizeColumnName);
-									} else {
-										queryColumns = [];
-									}
-									returnData(queryColumns, rows);
-								});
-								return;
-							}
-
-							function returnData(cols: string[], dataRows: any[]) {
-								const processedRows = dataRows.map((row: any) => cols.map((col: string) => {
-									const value = row[col];
-									return typeof value === 'bigint' ? value.toString() : value;
-								}));
-								resolve({
-									columns: cols,
-									rows: processedRows,
-									offset,
-									limit,
-									total
-								});
-							}
-
-							returnData(queryColumns, rows);
-						});
-					});
-				}
+	/**
+	 * Runs `work` on a connection of its own. Exports stream their result, and any query the grid
+	 * runs on the shared connection meanwhile would end that stream early.
+	 */
+	private async withConnection<T>(work: (con: duckdb.Connection) => Promise<T>): Promise<T> {
+		const con = this.db.connect();
+		try {
+			return await work(con);
+		} finally {
+			con.close((err) => {
+				if (err) console.error('DuckDB close error:', err);
 			});
-		} catch (e) {
-			reject(e);
 		}
-	});
-}
+	}
 
-function flattenObject(obj: any, prefix = ''): any {
-	const result: any = {};
-	for (const key in obj) {
-		if (obj.hasOwnProperty(key)) {
-			const newKey = prefix ? `${prefix}_${key}` : key;
-			if (typeof obj[key] === 'object' && obj[key] !== null && !Array.isArray(obj[key])) {
-				Object.assign(result, flattenObject(obj[key], newKey));
-			} else {
-				result[newKey] = obj[key];
+	/** Column statistics over the same rows a page request with this search and SQL would see. */
+	async profile(search?: string, sql?: string, filters?: ColumnFilter[]): Promise<ColumnProfile[]> {
+		await this.load();
+		const { query } = await filteredQuery(this.con, search, sql, filters, undefined, this.options.columnAliases);
+		return profileQuery(this.con, query);
+	}
+
+	/** The filter conditions a page request with these filters applies to the query, as SQL. */
+	async filterClause(search?: string, sql?: string, filters?: ColumnFilter[]): Promise<string> {
+		await this.load();
+		const { where } = await filteredQuery(this.con, search, sql, filters, undefined, this.options.columnAliases);
+		return where;
+	}
+
+	/** Dashboard series grouped and aggregated over every row a page request with this search and SQL would see. */
+	async aggregate(spec: ChartSpec, search?: string, sql?: string, filters?: ColumnFilter[]): Promise<ChartData> {
+		await this.load();
+		const { query } = await filteredQuery(this.con, search, sql, filters, undefined, this.options.columnAliases);
+		return aggregateQuery(this.con, query, spec);
+	}
+
+	private async configure(): Promise<void> {
+		// Let large imports spill to disk instead of failing once they exceed memory
+		const tempDir = path.join(os.tmpdir(), 'flat-file-reader').replace(/\\/g, '/').replace(/'/g, "''");
+		await runAsync(this.con, `SET temp_directory = '${tempDir}'`);
+	}
+
+	private async importFile(): Promise<void> {
+		const { con, filePath, options } = this;
+		const type = detectFileType(filePath);
+		if (type === 'excel') {
+			options.excel = options.excel ?? {};
+			this.sheetList = await importWorkbook(con, filePath, options.excel, options.columnTypes);
+		} else if (type === 'xml') {
+			options.xml = options.xml ?? {};
+			this.xmlResult = await importXml(con, filePath, options.xml, options.columnTypes);
+		} else if (type === 'csv' || type === 'tsv') {
+			if (!options.csvDialect) {
+				options.csvDialect = detectCsvDialect(filePath, type === 'tsv' ? '\t' : ',');
 			}
+			await importWithDialect(con, filePath, options.csvDialect, 'data');
+		} else if (type === 'json') {
+			this.jsonResult = await importJson(con, filePath, options.json ?? {});
+		} else {
+			await importWithDuckDB(con, filePath, 'data');
 		}
 	}
-	return result;
+
+	close(): void {
+		if (this.closed) return;
+		this.closed = true;
+		this.db.close((err) => {
+			if (err) console.error('DuckDB close error:', err);
+		});
+	}
 }
 
-export async function loadFileData(filePath: string, offset: number, limit: number, search?: string, sql?: string): Promise<PageData> {
+
+/** Imports an attached file into `table` with detected settings; returns every relation it created. */
+async function importAttachment(con: duckdb.Connection, filePath: string, table: string): Promise<string[]> {
 	const type = detectFileType(filePath);
 	if (type === 'excel') {
-		return loadWithExcelJS(filePath, offset, limit, search, sql);
-	} else if (type === 'xml') {
-		return loadWithXML(filePath, offset, limit, search, sql);
+		await importSheetTable(con, filePath, table);
+		return [table];
+	}
+	if (type === 'xml') {
+		const result = await importXml(con, filePath, {}, {}, table);
+		return [table, ...result.childTables];
+	}
+	if (type === 'json') {
+		const result = await importJson(con, filePath, {}, table);
+		return [table, ...result.tables];
+	}
+	if (type === 'csv' || type === 'tsv') {
+		await importWithDialect(con, filePath, detectCsvDialect(filePath, type === 'tsv' ? '\t' : ','), table);
 	} else {
-		return loadWithDuckDB(filePath, offset, limit, search, sql);
+		await importWithDuckDB(con, filePath, table);
 	}
+	return [table];
 }
 
-export async function exportData(filePath: string, outPath: string, search?: string, sql?: string): Promise<void> {
-	const data = await loadFileData(filePath, 0, Number.MAX_SAFE_INTEGER, search, sql);
-	const csv = Papa.unparse({
-		fields: data.columns,
-		data: data.rows
-	});
-	fs.writeFileSync(outPath, csv);
+async function importWithDialect(con: duckdb.Connection, filePath: string, dialect: CsvDialect, table: string): Promise<void> {
+	const registerQuery = `CREATE TABLE ${quoteIdent(table)} AS ${await csvSelect(con, filePath, dialect, false)}`;
+	try {
+		await runAsync(con, registerQuery);
+	} catch (err) {
+		console.error('DuckDB registerQuery error:', err);
+		throw err;
+	}
 }
 
-export async function saveFileData(filePath: string, columns: string[], rows: any[][]): Promise<void> {
-	const type = detectFileType(filePath);
-	if (type === 'csv' || type === 'tsv') {
-		const delim = type === 'csv' ? ',' : '\t';
-		const csv = (Papa as any).unparse(rows, { fields: columns, delimiter: delim });
-		fs.writeFileSync(filePath, csv);
-	} else if (type === 'excel') {
-		const workbook = new ExcelJS.Workbook();
-		const worksheet = workbook.addWorksheet('Sheet1');
-		worksheet.addRow(columns);
-		rows.forEach(row => worksheet.addRow(row));
-		await workbook.xlsx.writeFile(filePath);
-	} else if (type === 'parquet') {
-		// For Parquet, use DuckDB to export
-		return new Promise((resolve, reject) => {
-			const db = new duckdb.Database(':memory:');
-			const con = db.connect();
-			// Create table
-			const createTableQuery = `CREATE TABLE data (${columns.map(col => `"${col}" VARCHAR`).join(', ')})`;
-			con.run(createTableQuery, (err: Error | null) => {
-				if (err) return reject(err);
-				// Insert data
-				if (rows.length > 0) {
-					const insertQuery = `INSERT INTO data VALUES ${rows.map(row => `(${row.map(val => `'${String(val || '').replace(/'/g, "''")}'`).join(', ')})`).join(', ')}`;
-					con.run(insertQuery, (err: Error | null) => {
-						if (err) return reject(err);
-						// Export to Parquet
-						const absPath = path.resolve(filePath).replace(/\\/g, '/').replace(/'/g, "''");
-						const exportQuery = `COPY data TO '${absPath}' (FORMAT PARQUET)`;
-						con.run(exportQuery, (err: Error | null) => {
-							if (err) return reject(err);
-							resolve();
-						});
-					});
-				} else {
-					// Empty table
-					const absPath = path.resolve(filePath).replace(/\\/g, '/').replace(/'/g, "''");
-					const exportQuery = `COPY data TO '${absPath}' (FORMAT PARQUET)`;
-					con.run(exportQuery, (err: Error | null) => {
-						if (err) return reject(err);
-						resolve();
-					});
-				}
-			});
-		});
-	} else if (type === 'json') {
-		const jsonData = rows.map(row => {
-			const obj: any = {};
-			columns.forEach((col, index) => {
-				obj[col] = row[index];
-			});
-			return obj;
-		});
-		fs.writeFileSync(filePath, JSON.stringify(jsonData, null, 2));
+/**
+ * The rows of a CSV file read with `dialect`, comment lines left out. With `asText` every cell is
+ * the text in the file, null markers included, instead of a value of the detected type.
+ */
+async function csvSelect(con: duckdb.Connection, filePath: string, dialect: CsvDialect, asText: boolean): Promise<string> {
+	const absPath = path.resolve(filePath).replace(/\\/g, '/');
+	const csvOptions = [
+		`delim = ${sqlString(dialect.delimiter)}`,
+		`quote = ${sqlString(dialect.quote)}`,
+		`escape = ${sqlString(dialect.escape)}`,
+		`header = ${dialect.header}`,
+		`skip = ${Math.max(0, Math.floor(dialect.skipRows))}`
+	];
+	if (asText) {
+		csvOptions.push('all_varchar = true');
+	} else if (dialect.nullStrings.length === 1) {
+		csvOptions.push(`nullstr = ${sqlString(dialect.nullStrings[0])}`);
+	} else if (dialect.nullStrings.length > 1) {
+		csvOptions.push(`nullstr = [${dialect.nullStrings.map(sqlString).join(', ')}]`);
+	}
+	if (dialect.comment) {
+		// Comment lines in the body have fewer fields; pad them so they can be filtered out below
+		csvOptions.push('null_padding = true');
+	}
+	const source = `read_csv(${sqlString(absPath)}, ${csvOptions.join(', ')})`;
+
+	let select = `SELECT * FROM ${source}`;
+	if (dialect.comment) {
+		const colRows = await allAsync(con, `DESCRIBE SELECT * FROM ${source}`);
+		if (colRows.length > 1) {
+			// Only short lines are comments: the prefix in the first field and every padded field empty
+			const [first, ...rest] = colRows.map((row: any) => quoteIdent(String(row.column_name)));
+			// Read as text, null markers are not null yet but still count as empty
+			const isEmpty = (col: string) => asText && dialect.nullStrings.length > 0
+				? `(${col} IS NULL OR ${col} IN (${dialect.nullStrings.map(sqlString).join(', ')}))`
+				: `${col} IS NULL`;
+			const isComment = [`starts_with(trim(CAST(${first} AS VARCHAR)), ${sqlString(dialect.comment)})`, ...rest.map(isEmpty)];
+			select += ` WHERE NOT coalesce(${isComment.join(' AND ')}, false)`;
+		}
+	}
+	return select;
+}
+
+async function importWithDuckDB(con: duckdb.Connection, filePath: string, table: string): Promise<void> {
+	const absPath = path.resolve(filePath).replace(/\\/g, '/').replace(/'/g, "''");
+
+	let registerQuery = '';
+	const ext = path.extname(filePath).toLowerCase();
+	if (ext === '.parquet' || ext === '.pq') {
+		// Parquet is scanned in place: the footer gives schema and row count without reading rows
+		registerQuery = `CREATE VIEW ${quoteIdent(table)} AS SELECT * FROM parquet_scan('${absPath}')`;
 	} else {
-		throw new Error('Unsupported file type for saving');
+		registerQuery = `CREATE TABLE ${quoteIdent(table)} AS SELECT * FROM read_csv_auto('${absPath}')`;
+	}
+
+	try {
+		await runAsync(con, registerQuery);
+	} catch (err) {
+		console.error('DuckDB registerQuery error:', err);
+		throw err;
+	}
+}
+
+// Leading comments and `CREATE [OR REPLACE] [TEMP] VIEW|TABLE [IF NOT EXISTS] name [(columns)] AS`, then the query
+const CREATE_AS = /^((?:\s*(?:--[^\n]*\n|\/\*[\s\S]*?\*\/))*\s*CREATE\s+(?:OR\s+REPLACE\s+)?(?:TEMP(?:ORARY)?\s+)?(?:VIEW|TABLE)\s+(?:IF\s+NOT\s+EXISTS\s+)?(?:"(?:[^"]|"")*"|[\w.]+)\s*(?:\([^)]*\)\s*)?AS\s+)([\s\S]+)$/i;
+
+/** A `data` CTE that renames the aliased columns, or an empty string when no alias applies. */
+async function aliasCte(con: duckdb.Connection, aliases?: Record<string, string>): Promise<string> {
+	if (!aliases || Object.keys(aliases).length === 0) return '';
+	const colRows = await allAsync(con, 'DESCRIBE main.data');
+	const columns: string[] = colRows.map((row: any) => String(row.column_name));
+	if (!columns.some(col => aliases[col])) return '';
+	const select = columns.map(col => aliases[col] ? `${quoteIdent(col)} AS ${quoteIdent(aliases[col])}` : quoteIdent(col)).join(', ');
+	// `main.data` is the table itself; a bare `data` inside the CTE would refer back to the CTE
+	return `WITH data AS (SELECT ${select} FROM main.data) `;
+}
+
+/** The custom SQL (or the whole table) narrowed by the search box and column filters and sorted, as one SELECT. */
+async function filteredQuery(con: duckdb.Connection, search?: string, sql?: string, filters?: ColumnFilter[], sort?: SortKey[], aliases?: Record<string, string>): Promise<{ query: string; where: string }> {
+	// Custom SQL is wrapped as a subquery so it pages and counts like the plain table
+	let source = 'SELECT * FROM data';
+	if (sql && sql.trim()) {
+		source = sql.trim().replace(/;+\s*$/, '');
 	}
+
+	// The line break keeps a trailing `--` comment from swallowing the closing parenthesis
+	const base = `${await aliasCte(con, aliases)}SELECT * FROM (${source}\n) AS q`;
+	const hasSearch = !!(search && search.trim());
+	if (!hasSearch && !(filters && filters.length > 0) && !(sort && sort.length > 0)) {
+		return { query: base, where: '' };
+	}
+
+	const colRows = await allAsync(con, `DESCRIBE ${base}`);
+	const columns: string[] = colRows.map((row: any) => String(row.column_name));
+	const conditions: string[] = [];
+	if (hasSearch) {
+		// Match the text form of every column, ignoring case, so numbers and dates are searchable too
+		const needle = sqlString(`%${(search as string).trim()}%`);
+		conditions.push(`(${columns.map(col => `CAST(${quoteIdent(col)} AS VARCHAR) ILIKE ${needle}`).join(' OR ')})`);
+	}
+	const where = compileFilters(filters, columns);
+	if (where) conditions.push(where);
+	const orderBy = compileOrderBy(sort, columns);
+	let query = conditions.length > 0 ? `${base} WHERE ${conditions.join(' AND ')}` : base;
+	if (orderBy) query = `${query} ${orderBy}`;
+	return { query, where };
+}
+
+async function queryData(con: duckdb.Connection, offset: number, limit: number, search?: string, sql?: string, filters?: ColumnFilter[], sort?: SortKey[], aliases?: Record<string, string>): Promise<PageData> {
+	const { query: filtered, where } = await filteredQuery(con, search, sql, filters, sort, aliases);
+	const query = `${filtered} LIMIT ${limit} OFFSET ${offset}`;
+
+	let rows: any[];
+	let total: number;
+	try {
+		const countRows = await allAsync(con, `SELECT COUNT(*) AS total FROM (${filtered}) AS counted`);
+		total = Number(countRows[0].total);
+		rows = await allAsync(con, query);
+	} catch (err) {
+		console.error('DuckDB data query error:', err);
+		throw err;
+	}
+
+	// Get columns and their types from the query result instead of the original table
+	const colRows = await allAsync(con, `DESCRIBE ${query}`);
+	const queryColumns: string[] = colRows.map((row: any) => String(row.column_name));
+	const types: string[] = colRows.map((row: any) => String(row.column_type));
+
+	const processedRows = rows.map((row: any) => queryColumns.map((col: string) => {
+		const value = row[col];
+		return typeof value === 'bigint' ? value.toString() : value;
+	}));
+	return {
+		columns: queryColumns,
+		rows: processedRows,
+		offset,
+		limit,
+		total,
+		types,
+		where
+	};
+}
+
+export async function exportData(session: FileSession, outPath: string, options: ExportOptions = { format: 'csv' }, search?: string, sql?: string, filters?: ColumnFilter[], sort?: SortKey[]): Promise<void> {
+	await session.exportTo(outPath, options, search, sql, filters, sort);
 }
@@ -0,0 +1,63 @@
+import { quoteIdent, sqlString } from './duckdbUtils';
+
+export type FilterOperator = 'equals' | 'contains' | 'regex' | 'between' | 'isNull' | 'notNull' | 'in';
+
+export interface ColumnFilter {
+	column: string;
+	op: FilterOperator;
+	// Text operand; the lower bound for `between`
+	value?: string;
+	// Upper bound for `between`
+	value2?: string;
+	// Candidates for `in`
+	values?: string[];
+	// Matching ignores case unless this is set
+	caseSensitive?: boolean;
+}
+
+/** One SQL condition per filter; filters on columns missing from `columns` are rejected. */
+export function compileFilter(filter: ColumnFilter, columns: string[]): string | null {
+	if (!columns.includes(filter.column)) {
+		throw new Error(`Cannot filter on unknown column "${filter.column}".`);
+	}
+	const col = quoteIdent(filter.column);
+	// Text operators work on any column type through its text form
+	const text = `CAST(${col} AS VARCHAR)`;
+	const fold = (expr: string) => filter.caseSensitive ? expr : `lower(${expr})`;
+	const value = filter.value ?? '';
+
+	switch (filter.op) {
+		case 'equals':
+			return `${fold(text)} = ${fold(sqlString(value))}`;
+		case 'contains':
+			return value === '' ? null : `contains(${fold(text)}, ${fold(sqlString(value))})`;
+		case 'regex':
+			return value === '' ? null : `regexp_matches(${text}, ${sqlString(value)}${filter.caseSensitive ? '' : ", 'i'"})`;
+		case 'between': {
+			// Bounds are left as literals so DuckDB compares them as the column's own type
+			const parts: string[] = [];
+			if (value !== '') parts.push(`${col} >= ${sqlString(value)}`);
+			if ((filter.value2 ?? '') !== '') parts.push(`${col} <= ${sqlString(filter.value2 as string)}`);
+			return parts.length > 0 ? parts.join(' AND ') : null;
+		}
+		case 'isNull':
+			return `${col} IS NULL`;
+		case 'notNull':
+			return `${col} IS NOT NULL`;
+		case 'in': {
+			const values = (filter.values ?? []).filter(v => v !== '');
+			return values.length === 0 ? null : `${fold(text)} IN (${values.map(v => fold(sqlString(v))).join(', ')})`;
+		}
+		default:
+			throw new Error(`Unsupported filter operator "${(filter as ColumnFilter).op}".`);
+	}
+}
+
+/** The conditions of all filters joined with AND, or an empty string when none apply. */
+export function compileFilters(filters: ColumnFilter[] | undefined, columns: string[]): string {
+	return (filters ?? [])
+		.map(filter => compileFilter(filter, columns))
+		.filter((condition): condition is string => !!condition)
+		.map(condition => `(${condition})`)
+		.join(' AND ');
+}
@@ -0,0 +1,46 @@
+import * as duckdb from 'duckdb';
+import { allAsync } from './duckdbUtils';
+
+// Overloads listed per function; the rest only add noise to a completion hint
+const MAX_SIGNATURES = 3;
+
+export interface SqlFunction {
+	name: string;
+	// scalar, aggregate, table or macro
+	kind: string;
+	// e.g. "substring(string VARCHAR, start BIGINT, length BIGINT) → VARCHAR"
+	signatures: string[];
+	description?: string;
+}
+
+/** The functions DuckDB knows, one entry per name, for autocompletion. */
+export async function listFunctions(con: duckdb.Connection): Promise<SqlFunction[]> {
+	const rows = await allAsync(con, `
+		SELECT function_name, function_type, description, return_type, parameters, parameter_types
+		FROM duckdb_functions()
+		WHERE function_type IN ('scalar', 'aggregate', 'table', 'macro', 'table_macro')
+		ORDER BY function_name`);
+
+	const byName = new Map<string, SqlFunction>();
+	for (const row of rows) {
+		const name = String(row.function_name);
+		// Operators such as `+` and internal helpers are not typed as calls
+		if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) continue;
+		let entry = byName.get(name);
+		if (!entry) {
+			entry = { name, kind: String(row.function_type).replace('_', ' '), signatures: [] };
+			byName.set(name, entry);
+		}
+		if (!entry.description && row.description) {
+			entry.description = String(row.description);
+		}
+		if (entry.signatures.length < MAX_SIGNATURES) {
+			const params: any[] = Array.isArray(row.parameters) ? row.parameters : [];
+			const types: any[] = Array.isArray(row.parameter_types) ? row.parameter_types : [];
+			const args = params.map((param, i) => types[i] && types[i] !== 'ANY' ? `${param} ${types[i]}` : String(param)).join(', ');
+			const signature = `${name}(${args})${row.return_type ? ` → ${row.return_type}` : ''}`;
+			if (!entry.signatures.includes(signature)) entry.signatures.push(signature);
+		}
+	}
+	return [...byName.values()];
+}
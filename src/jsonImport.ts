@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as duckdb from 'duckdb';
+import { allAsync, quoteIdent, runAsync, sqlString } from './duckdbUtils';
+
+export type JsonShape = 'array' | 'object' | 'lines';
+
+export interface JsonOptions {
+	// Expand struct fields into dotted columns and list fields into one row per element
+	flatten?: boolean;
+}
+
+export interface JsonImportResult {
+	shape: JsonShape;
+	// For an object of arrays, one table per array-valued key; the main table reads the first
+	tables: string[];
+	flatten: boolean;
+}
+
+const SAMPLE_BYTES = 64 * 1024;
+// Each flatten pass expands one level of structs and one list, so this bounds the nesting handled
+const MAX_FLATTEN_PASSES = 12;
+
+/** Tells a JSON array, a single (pretty-printed) object and JSON Lines apart from the start of the file. */
+export function detectJsonShape(filePath: string): JsonShape {
+	const ext = path.extname(filePath).toLowerCase();
+	const fd = fs.openSync(filePath, 'r');
+	let sample: string;
+	try {
+		const buffer = Buffer.alloc(SAMPLE_BYTES);
+		const bytesRead = fs.readSync(fd, buffer, 0, SAMPLE_BYTES, 0);
+		sample = buffer.subarray(0, bytesRead).toString('utf-8').replace(/^\uFEFF/, '');
+	} finally {
+		fs.closeSync(fd);
+	}
+
+	const trimmed = sample.trimStart();
+	if (trimmed.startsWith('[')) return 'array';
+	const lines = trimmed.split(/\r?\n/).filter(line => line.trim() !== '');
+	const firstLineIsDocument = (() => {
+		try {
+			JSON.parse(lines[0] ?? '');
+			return true;
+		} catch {
+			return false;
+		}
+	})();
+	if (ext === '.jsonl' || ext === '.ndjson' || (firstLineIsDocument && lines.length > 1)) return 'lines';
+	return 'object';
+}
+
+/**
+ * The records of a JSON array or JSON Lines file as parsed, without DuckDB's typing, or null
+ * when some record is not an object and so does not map to a row.
+ */
+export function readJsonRecords(filePath: string, shape: JsonShape): Record<string, unknown>[] | null {
+	const text = fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+	const records: unknown[] = shape === 'lines'
+		? text.split(/\r?\n/).filter(line => line.trim() !== '').map(line => JSON.parse(line))
+		: JSON.parse(text);
+	if (!Array.isArray(records) || !records.every(record => record !== null && typeof record === 'object' && !Array.isArray(record))) {
+		return null;
+	}
+	return records as Record<string, unknown>[];
+}
+
+export async function importJson(con: duckdb.Connection, filePath: string, options: JsonOptions, table = 'data'): Promise<JsonImportResult> {
+	const absPath = sqlString(path.resolve(filePath).replace(/\\/g, '/'));
+	const shape = detectJsonShape(filePath);
+	const flatten = !!options.flatten;
+
+	if (shape !== 'object') {
+		const format = shape === 'lines' ? 'newline_delimited' : 'array';
+		await createRelation(con, table, `SELECT * FROM read_json(${absPath}, format = '${format}')`, flatten);
+		return { shape, tables: [], flatten };
+	}
+
+	// A single document: each array-valued key becomes its own table
+	await runAsync(con, `CREATE OR REPLACE TEMP TABLE json_document AS SELECT * FROM read_json(${absPath}, format = 'unstructured')`);
+	try {
+		const colRows = await allAsync(con, 'DESCRIBE json_document');
+		const lists = colRows.filter((row: any) => String(row.column_type).endsWith('[]'));
+		if (lists.length === 0) {
+			await createRelation(con, table, 'SELECT * FROM json_document', flatten);
+			return { shape, tables: [], flatten };
+		}
+
+		const tables: string[] = [];
+		const used = new Set<string>([table.toLowerCase(), 'json_document']);
+		for (const row of lists) {
+			const key = String(row.column_name);
+			// Tables of an attached file are prefixed with its alias so they don't clash with the main file's
+			const base = table === 'data' ? key : `${table}_${key}`;
+			let name = base;
+			for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}_${n}`;
+			used.add(name.toLowerCase());
+			const elementType = String(row.column_type).slice(0, -2);
+			const select = elementType.startsWith('STRUCT(')
+				? `SELECT UNNEST(${quoteIdent(key)}, recursive := true) FROM json_document`
+				: `SELECT UNNEST(${quoteIdent(key)}) AS ${quoteIdent(key)} FROM json_document`;
+			await createRelation(con, name, select, flatten);
+			tables.push(name);
+		}
+		await runAsync(con, `CREATE OR REPLACE VIEW ${quoteIdent(table)} AS SELECT * FROM ${quoteIdent(tables[0])}`);
+		return { shape, tables, flatten };
+	} finally {
+		await runAsync(con, 'DROP TABLE IF EXISTS json_document');
+	}
+}
+
+async function createRelation(con: duckdb.Connection, table: string, select: string, flatten: boolean): Promise<void> {
+	const source = flatten ? await flattenSelect(con, select) : select;
+	await runAsync(con, `CREATE OR REPLACE TABLE ${quoteIdent(table)} AS ${source}`);
+}
+
+/**
+ * Wraps `select` until no struct or list columns are left: struct fields become
+ * `parent.field` columns and the first list column of each pass is unnested into rows.
+ */
+async function flattenSelect(con: duckdb.Connection, select: string): Promise<string> {
+	let current = select;
+	for (let pass = 0; pass < MAX_FLATTEN_PASSES; pass++) {
+		const colRows = await allAsync(con, `DESCRIBE ${current}`);
+		let unnested = false;
+		let changed = false;
+		const items = colRows.flatMap((row: any) => {
+			const name = String(row.column_name);
+			const type = String(row.column_type);
+			const ident = quoteIdent(name);
+			if (type.startsWith('STRUCT(') && type.endsWith(')')) {
+				changed = true;
+				return structFields(type).map(field => `struct_extract(${ident}, ${sqlString(field)}) AS ${quoteIdent(`${name}.${field}`)}`);
+			}
+			if (type.endsWith('[]') && !unnested) {
+				unnested = true;
+				changed = true;
+				// Empty lists would drop the row, so they unnest to a single NULL instead
+				return [`UNNEST(CASE WHEN len(${ident}) > 0 THEN ${ident} ELSE [NULL] END) AS ${ident}`];
+			}
+			return [ident];
+		});
+		if (!changed) break;
+		current = `SELECT ${items.join(', ')} FROM (${current}) AS flattened_${pass}`;
+	}
+	return current;
+}
+
+/** Top-level field names of a DuckDB `STRUCT(...)` type string. */
+function structFields(type: string): string[] {
+	const body = type.slice('STRUCT('.length, -1);
+	const fields: string[] = [];
+	let depth = 0;
+	let start = 0;
+	let inQuotes = false;
+	for (let i = 0; i <= body.length; i++) {
+		const ch = body[i];
+		if (ch === '"') inQuotes = !inQuotes;
+		if (inQuotes) continue;
+		if (ch === '(') depth++;
+		if (ch === ')') depth--;
+		if ((ch === ',' && depth === 0) || i === body.length) {
+			const part = body.slice(start, i).trim();
+			start = i + 1;
+			if (!part) continue;
+			const match = part.match(/^"((?:[^"]|"")*)"/) ?? part.match(/^(\S+)/);
+			if (match) fields.push(match[1].replace(/""/g, '"'));
+		}
+	}
+	return fields;
+}
@@ -0,0 +1,125 @@
+import * as duckdb from 'duckdb';
+import { NUMERIC_TYPE, allAsync, quoteIdent } from './duckdbUtils';
+
+const TOP_VALUES = 10;
+const HISTOGRAM_BINS = 12;
+
+export interface ValueCount {
+	value: string;
+	count: number;
+}
+
+export interface HistogramBin {
+	lower: number;
+	upper: number;
+	count: number;
+}
+
+export interface ColumnProfile {
+	name: string;
+	type: string;
+	count: number;
+	nulls: number;
+	distinct: number;
+	// Extremes as text so dates and strings profile the same way as numbers
+	min: string | null;
+	max: string | null;
+	// Numeric columns only
+	mean?: number | null;
+	stddev?: number | null;
+	quantiles?: { q25: number | null; q50: number | null; q75: number | null };
+	histogram?: HistogramBin[];
+	top: ValueCount[];
+}
+
+const toNumber = (value: any): number | null => value === null || value === undefined ? null : Number(value);
+const toText = (value: any): string | null => value === null || value === undefined ? null : String(value);
+
+/** Per-column statistics, frequent values and (for numbers) a histogram of the rows of `source`. */
+export async function profileQuery(con: duckdb.Connection, source: string): Promise<ColumnProfile[]> {
+	const colRows = await allAsync(con, `DESCRIBE ${source}`);
+	const columns = colRows.map((row: any) => ({ name: String(row.column_name), type: String(row.column_type) }));
+	if (columns.length === 0) return [];
+
+	// One scan for the basic aggregates of every column
+	const aggregates = columns.flatMap((col, i) => {
+		const ident = quoteIdent(col.name);
+		const items = [
+			`count(${ident}) AS c${i}_count`,
+			`count(DISTINCT ${ident}) AS c${i}_distinct`,
+			`CAST(min(${ident}) AS VARCHAR) AS c${i}_min`,
+			`CAST(max(${ident}) AS VARCHAR) AS c${i}_max`
+		];
+		if (NUMERIC_TYPE.test(col.type)) {
+			items.push(
+				`avg(${ident}) AS c${i}_mean`,
+				`stddev_samp(${ident}) AS c${i}_stddev`,
+				`quantile_cont(${ident}, 0.25) AS c${i}_q25`,
+				`quantile_cont(${ident}, 0.5) AS c${i}_q50`,
+				`quantile_cont(${ident}, 0.75) AS c${i}_q75`
+			);
+		}
+		return items;
+	});
+	const [stats] = await allAsync(con, `SELECT count(*) AS total, ${aggregates.join(', ')} FROM (${source}) AS profiled`);
+	const total = Number(stats.total);
+
+	const profiles: ColumnProfile[] = [];
+	for (let i = 0; i < columns.length; i++) {
+		const col = columns[i];
+		const nonNull = Number(stats[`c${i}_count`]);
+		const profile: ColumnProfile = {
+			name: col.name,
+			type: col.type,
+			count: total,
+			nulls: total - nonNull,
+			distinct: Number(stats[`c${i}_distinct`]),
+			min: toText(stats[`c${i}_min`]),
+			max: toText(stats[`c${i}_max`]),
+			top: await topValues(con, source, col.name)
+		};
+		if (NUMERIC_TYPE.test(col.type)) {
+			profile.mean = toNumber(stats[`c${i}_mean`]);
+			profile.stddev = toNumber(stats[`c${i}_stddev`]);
+			profile.quantiles = {
+				q25: toNumber(stats[`c${i}_q25`]),
+				q50: toNumber(stats[`c${i}_q50`]),
+				q75: toNumber(stats[`c${i}_q75`])
+			};
+			profile.histogram = nonNull > 0 ? await histogram(con, source, col.name) : [];
+		}
+		profiles.push(profile);
+	}
+	return profiles;
+}
+
+async function topValues(con: duckdb.Connection, source: string, column: string): Promise<ValueCount[]> {
+	const ident = quoteIdent(column);
+	const rows = await allAsync(con, `SELECT CAST(${ident} AS VARCHAR) AS value, count(*) AS n FROM (${source}) AS profiled WHERE ${ident} IS NOT NULL GROUP BY ${ident} ORDER BY n DESC, value LIMIT ${TOP_VALUES}`);
+	return rows.map((row: any) => ({ value: String(row.value), count: Number(row.n) }));
+}
+
+/** Equal-width bins between the column's min and max; a constant column gets a single bin. */
+async function histogram(con: duckdb.Connection, source: string, column: string): Promise<HistogramBin[]> {
+	const ident = quoteIdent(column);
+	const rows = await allAsync(con, `
+		WITH vals AS (SELECT CAST(${ident} AS DOUBLE) AS v FROM (${source}) AS profiled WHERE ${ident} IS NOT NULL),
+		bounds AS (SELECT min(v) AS lo, max(v) AS hi FROM vals)
+		SELECT coalesce(least(floor((v - lo) / nullif(hi - lo, 0) * ${HISTOGRAM_BINS}), ${HISTOGRAM_BINS - 1}), 0) AS bin,
+			count(*) AS n, min(lo) AS lo, min(hi) AS hi
+		FROM vals, bounds GROUP BY bin ORDER BY bin`);
+	if (rows.length === 0) return [];
+
+	const lo = Number(rows[0].lo);
+	const hi = Number(rows[0].hi);
+	if (lo === hi) {
+		return [{ lower: lo, upper: hi, count: Number(rows[0].n) }];
+	}
+	const width = (hi - lo) / HISTOGRAM_BINS;
+	const counts = new Map<number, number>(rows.map((row: any) => [Number(row.bin), Number(row.n)]));
+	return Array.from({ length: HISTOGRAM_BINS }, (_, bin) => ({
+		lower: lo + bin * width,
+		upper: bin === HISTOGRAM_BINS - 1 ? hi : lo + (bin + 1) * width,
+		count: counts.get(bin) ?? 0
+	}));
+}
@@ -0,0 +1,106 @@
+import * as duckdb from 'duckdb';
+import { allAsync } from './duckdbUtils';
+
+export interface PlanNode {
+	// Operator, e.g. HASH_JOIN or SEQ_SCAN
+	name: string;
+	// Columns, filters and join conditions as DuckDB prints them
+	details: string[];
+	// Optimizer's cardinality estimate
+	estimatedRows?: number;
+	// EXPLAIN ANALYZE only
+	actualRows?: number;
+	seconds?: number;
+	children: PlanNode[];
+}
+
+export interface QueryPlan {
+	analyzed: boolean;
+	totalSeconds?: number;
+	roots: PlanNode[];
+	// DuckDB's own rendering, shown when the tree cannot be read from it
+	text: string;
+}
+
+interface Box {
+	x: number;
+	y: number;
+	node: PlanNode;
+}
+
+const toCount = (text: string) => Number(text.replace(/,/g, ''));
+
+/**
+ * Runs EXPLAIN (or EXPLAIN ANALYZE, which executes the query) and reads the operator tree
+ * out of the box drawing DuckDB returns.
+ */
+export async function explainQuery(con: duckdb.Connection, query: string, analyze: boolean): Promise<QueryPlan> {
+	const rows = await allAsync(con, `EXPLAIN ${analyze ? 'ANALYZE ' : ''}${query}`);
+	const row = rows.find((r: any) => /^(physical|analyzed)_plan$/.test(String(r.explain_key))) ?? rows[rows.length - 1];
+	const text = row ? String(row.explain_value) : '';
+	const total = /Total Time:\s*([\d.]+)s/.exec(text);
+	return { analyzed: analyze, totalSeconds: total ? Number(total[1]) : undefined, roots: parsePlanText(text), text };
+}
+
+/**
+ * Rebuilds the tree from the rendered plan. Each level is one row of boxes, and a node's
+ * children start in its own column, so a box hangs from the nearest box at or left of it one row up.
+ */
+export function parsePlanText(text: string): PlanNode[] {
+	const lines = text.split('\n');
+	// EXPLAIN ANALYZE opens with nested header boxes (query and total time) that are not operators
+	const start = lines.findIndex((line, i) => /^┌─+┐/.test(line) && /^│[^┌│]/.test(lines[i + 1] ?? ''));
+	if (start === -1) return [];
+
+	const rows = new Map<number, Box[]>();
+	for (let y = start; y < lines.length; y++) {
+		for (let x = lines[y].indexOf('┌'); x !== -1; x = lines[y].indexOf('┌', x + 1)) {
+			const right = lines[y].indexOf('┐', x);
+			if (right === -1) break;
+			const content: string[] = [];
+			for (let inner = y + 1; inner < lines.length && lines[inner][x] !== '└'; inner++) {
+				content.push(lines[inner].slice(x + 1, right).trim());
+			}
+			rows.set(y, [...rows.get(y) ?? [], { x, y, node: readBox(content) }]);
+		}
+	}
+
+	const levels = [...rows.keys()].sort((a, b) => a - b).map(y => rows.get(y) as Box[]);
+	for (let level = 1; level < levels.length; level++) {
+		for (const box of levels[level]) {
+			const parent = levels[level - 1].filter(p => p.x <= box.x).pop();
+			parent?.node.children.push(box.node);
+		}
+	}
+	return (levels[0] ?? []).map(box => box.node);
+}
+
+/** Splits the text of one box into the operator name, its details and its row counts and timing. */
+function readBox(content: string[]): PlanNode {
+	const sections: string[][] = [[]];
+	for (const line of content) {
+		if (/^[─\s]+$/.test(line) && line.includes('─')) {
+			sections.push([]);
+		} else if (line) {
+			sections[sections.length - 1].push(line);
+		}
+	}
+
+	const node: PlanNode = { name: sections[0].join(' '), details: [], children: [] };
+	const rest = sections.slice(1).flat();
+	const timed = rest.some(line => /^\([\d.]+s\)$/.test(line));
+	for (const line of rest) {
+		let match: RegExpExecArray | null;
+		if ((match = /^EC:\s*([\d,]+)/.exec(line)) || (match = /^~([\d,]+) Rows?$/.exec(line))) {
+			node.estimatedRows = toCount(match[1]);
+		} else if ((match = /^\(([\d.]+)s\)$/.exec(line))) {
+			node.seconds = Number(match[1]);
+		} else if (timed && (match = /^([\d,]+)( Rows?)?$/.exec(line))) {
+			// With timings present, a bare count is the number of rows the operator produced
+			node.actualRows = toCount(match[1]);
+		} else {
+			node.details.push(line);
+		}
+	}
+	return node;
+}
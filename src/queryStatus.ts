@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+
+export const CANCEL_QUERY_COMMAND = 'flatFileReader.cancelQuery';
+
+/** Raised when the user or the timeout stops waiting for a query; DuckDB itself keeps running it. */
+export class QueryCancelledError extends Error {}
+
+type StatusEntry =
+	| { kind: 'running'; label: string; started: number; cancel?: () => void }
+	| { kind: 'done'; label: string; elapsedMs: number; rows?: number }
+	| { kind: 'failed'; label: string; elapsedMs: number; message: string; cancelled: boolean };
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)} s`;
+
+/**
+ * The status bar item shared by every Flat File Reader editor. Each editor reports
+ * its imports and queries under its own key; the item shows the active editor's.
+ */
+export class QueryStatus implements vscode.Disposable {
+	private readonly item: vscode.StatusBarItem;
+	private readonly entries = new Map<string, StatusEntry>();
+	private current: string | null = null;
+	private ticker: NodeJS.Timeout | undefined;
+
+	constructor() {
+		this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+		this.item.name = 'Flat File Reader';
+	}
+
+	/** Marks work as running; `cancel` makes the item a button that stops waiting for it. */
+	begin(key: string, label: string, cancel?: () => void): void {
+		this.entries.set(key, { kind: 'running', label, started: Date.now(), cancel });
+		this.focus(key);
+	}
+
+	end(key: string, label: string, elapsedMs: number, rows?: number): void {
+		this.entries.set(key, { kind: 'done', label, elapsedMs, rows });
+		this.focus(key);
+	}
+
+	fail(key: string, label: string, elapsedMs: number, err: unknown): void {
+		const message = err instanceof Error ? err.message : String(err);
+		this.entries.set(key, { kind: 'failed', label, elapsedMs, message, cancelled: err instanceof QueryCancelledError });
+		this.focus(key);
+	}
+
+	/** Shows the entry of `key`, e.g. when its editor becomes active. */
+	focus(key: string): void {
+		this.current = key;
+		this.render();
+	}
+
+	release(key: string): void {
+		this.entries.delete(key);
+		if (this.current === key) {
+			this.current = null;
+			this.render();
+		}
+	}
+
+	/** Stops waiting for the running work of the editor shown in the status bar. */
+	cancelCurrent(): void {
+		const entry = this.current ? this.entries.get(this.current) : undefined;
+		if (entry?.kind === 'running') {
+			entry.cancel?.();
+		}
+	}
+
+	dispose(): void {
+		clearInterval(this.ticker);
+		this.item.dispose();
+	}
+
+	private render(): void {
+		clearInterval(this.ticker);
+		this.ticker = undefined;
+		const entry = this.current ? this.entries.get(this.current) : undefined;
+		if (!entry) {
+			this.item.hide();
+			return;
+		}
+
+		this.item.command = undefined;
+		if (entry.kind === 'running') {
+			const update = () => {
+				this.item.text = `$(sync~spin) ${entry.label}… ${Math.floor((Date.now() - entry.started) / 1000)} s`;
+			};
+			update();
+			// Elapsed time ticks while the work runs
+			this.ticker = setInterval(update, 1000);
+			if (entry.cancel) {
+				this.item.command = CANCEL_QUERY_COMMAND;
+				this.item.tooltip = 'Click to stop waiting for it (DuckDB still finishes it in the background)';
+			} else {
+				this.item.tooltip = entry.label;
+			}
+		} else if (entry.kind === 'done') {
+			this.item.text = entry.rows !== undefined
+				? `$(database) ${entry.rows.toLocaleString()} rows · ${seconds(entry.elapsedMs)}`
+				: `$(database) ${entry.label} · ${seconds(entry.elapsedMs)}`;
+			this.item.tooltip = `${entry.label} finished in ${seconds(entry.elapsedMs)}`;
+		} else {
+			this.item.text = entry.cancelled ? `$(circle-slash) Stopped waiting: ${entry.label}` : `$(error) ${entry.label} failed`;
+			this.item.tooltip = entry.message;
+		}
+		this.item.show();
+	}
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+
+export type QueryScope = 'file' | 'workspace';
+
+export interface SavedQuery {
+	id: string;
+	name: string;
+	description: string;
+	sql: string;
+	scope: QueryScope;
+	// Epoch milliseconds
+	updated: number;
+}
+
+// Format written by export and accepted by import
+interface QueryLibraryFile {
+	version: 1;
+	queries: Array<Pick<SavedQuery, 'name' | 'description' | 'sql' | 'scope'>>;
+}
+
+const WORKSPACE_KEY = 'flatFileReader.savedQueries';
+const fileKey = (uri: vscode.Uri) => `${WORKSPACE_KEY}:${uri.toString()}`;
+
+/**
+ * Named queries kept in workspace storage, either for one file or for every file
+ * in the workspace. The store is shared by all editors; each call names its file.
+ */
+export class SavedQueryStore {
+	constructor(private readonly state: vscode.Memento) {}
+
+	/** File queries first, then workspace ones, each sorted by name. */
+	list(uri: vscode.Uri): SavedQuery[] {
+		const byName = (a: SavedQuery, b: SavedQuery) => a.name.localeCompare(b.name);
+		return [...this.read(uri, 'file').sort(byName), ...this.read(uri, 'workspace').sort(byName)];
+	}
+
+	async add(uri: vscode.Uri, query: Pick<SavedQuery, 'name' | 'description' | 'sql' | 'scope'>): Promise<SavedQuery> {
+		const name = query.name.trim();
+		if (!name) {
+			throw new Error('A saved query needs a name.');
+		}
+		if (!query.sql.trim()) {
+			throw new Error('There is no SQL to save.');
+		}
+		const saved: SavedQuery = { id: randomUUID(), name, description: query.description.trim(), sql: query.sql, scope: query.scope === 'workspace' ? 'workspace' : 'file', updated: Date.now() };
+		await this.write(uri, saved.scope, [...this.read(uri, saved.scope), saved]);
+		return saved;
+	}
+
+	/** Changes the name, description or SQL of a query, or moves it to the other scope. */
+	async update(uri: vscode.Uri, id: string, changes: Partial<Pick<SavedQuery, 'name' | 'description' | 'sql' | 'scope'>>): Promise<void> {
+		const current = this.find(uri, id);
+		if (changes.name !== undefined && !changes.name.trim()) {
+			throw new Error('A saved query needs a name.');
+		}
+		const updated: SavedQuery = {
+			...current,
+			name: (changes.name ?? current.name).trim(),
+			description: (changes.description ?? current.description).trim(),
+			sql: changes.sql ?? current.sql,
+			scope: changes.scope === 'workspace' || changes.scope === 'file' ? changes.scope : current.scope,
+			updated: Date.now()
+		};
+		await this.write(uri, current.scope, this.read(uri, current.scope).filter(q => q.id !== id));
+		await this.write(uri, updated.scope, [...this.read(uri, updated.scope), updated]);
+	}
+
+	async duplicate(uri: vscode.Uri, id: string): Promise<SavedQuery> {
+		const current = this.find(uri, id);
+		const names = new Set(this.read(uri, current.scope).map(q => q.name));
+		let name = `${current.name} (copy)`;
+		for (let n = 2; names.has(name); n++) {
+			name = `${current.name} (copy ${n})`;
+		}
+		return this.add(uri, { ...current, name });
+	}
+
+	async remove(uri: vscode.Uri, id: string): Promise<void> {
+		const current = this.find(uri, id);
+		await this.write(uri, current.scope, this.read(uri, current.scope).filter(q => q.id !== id));
+	}
+
+	/** JSON text of the file's and workspace's queries, without ids or timestamps. */
+	serialize(uri: vscode.Uri): string {
+		const file: QueryLibraryFile = {
+			version: 1,
+			queries: this.list(uri).map(({ name, description, sql, scope }) => ({ name, description, sql, scope }))
+		};
+		return JSON.stringify(file, null, 2) + '\n';
+	}
+
+	/** Adds the queries of an exported library; ones already present with the same name and SQL are skipped. */
+	async import(uri: vscode.Uri, text: string): Promise<number> {
+		let parsed: any;
+		try {
+			parsed = JSON.parse(text);
+		} catch {
+			throw new Error('The file is not valid JSON.');
+		}
+		const entries: any[] = Array.isArray(parsed) ? parsed : parsed?.queries;
+		if (!Array.isArray(entries)) {
+			throw new Error('The file does not contain a list of saved queries.');
+		}
+
+		let added = 0;
+		for (const entry of entries) {
+			if (typeof entry?.name !== 'string' || typeof entry?.sql !== 'string' || !entry.name.trim() || !entry.sql.trim()) continue;
+			const scope: QueryScope = entry.scope === 'file' ? 'file' : 'workspace';
+			const existing = this.read(uri, scope);
+			if (existing.some(q => q.name === entry.name.trim() && q.sql === entry.sql)) continue;
+			await this.add(uri, { name: entry.name, description: typeof entry.description === 'string' ? entry.description : '', sql: entry.sql, scope });
+			added++;
+		}
+		return added;
+	}
+
+	private find(uri: vscode.Uri, id: string): SavedQuery {
+		const query = this.list(uri).find(q => q.id === id);
+		if (!query) {
+			throw new Error('That saved query no longer exists.');
+		}
+		return query;
+	}
+
+	private read(uri: vscode.Uri, scope: QueryScope): SavedQuery[] {
+		return [...this.state.get<SavedQuery[]>(scope === 'file' ? fileKey(uri) : WORKSPACE_KEY) ?? []];
+	}
+
+	private write(uri: vscode.Uri, scope: QueryScope, queries: SavedQuery[]): Thenable<void> {
+		return this.state.update(scope === 'file' ? fileKey(uri) : WORKSPACE_KEY, queries);
+	}
+}
@@ -0,0 +1,21 @@
+import { quoteIdent } from './duckdbUtils';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+	column: string;
+	direction: SortDirection;
+}
+
+/** An ORDER BY clause for the sort keys in priority order, or an empty string when there are none. */
+export function compileOrderBy(sort: SortKey[] | undefined, columns: string[]): string {
+	if (!sort || sort.length === 0) return '';
+	const keys = sort.map(key => {
+		if (!columns.includes(key.column)) {
+			throw new Error(`Cannot sort on unknown column "${key.column}".`);
+		}
+		// Nulls go last either way so they never crowd out the first page
+		return `${quoteIdent(key.column)} ${key.direction === 'desc' ? 'DESC' : 'ASC'} NULLS LAST`;
+	});
+	return `ORDER BY ${keys.join(', ')}`;
+}
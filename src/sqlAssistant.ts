@@ -0,0 +1,213 @@
+import { AiProvider, ChatMessage } from './aiProviders';
+import { TableSchema } from './fileLoader';
+import { ColumnProfile } from './profiling';
+
+// Answer the model is told to give to requests that are not about the data
+export const NOT_ABOUT_DATA = 'Hey! Dude please ask question related to data';
+
+const SAMPLE_VALUE_LENGTH = 80;
+
+const SQL_SYSTEM_PROMPT = [
+	'You are a SQL expert writing queries for DuckDB.',
+	'First, check if the user\'s request is related to data analysis, querying, or database operations.',
+	`If the request is NOT related to data (e.g., general questions, coding help, math problems, etc.), respond with exactly: "${NOT_ABOUT_DATA}".`,
+	'If the request IS related to data, write one valid DuckDB SQL query for it, using only the tables and columns listed below; the opened file is the table "data".',
+	'DuckDB dialect: double-quote identifiers that contain spaces, capitals or symbols; single-quote strings; use ILIKE for case-insensitive matching, LIMIT instead of TOP,',
+	'CAST(x AS type) or x::type for conversions, date_trunc, strftime and date_diff for dates, and string_agg or list for collecting values.',
+	'Return only the SQL query without any explanation or markdown formatting.'
+].join(' ');
+
+const EXPLAIN_SYSTEM_PROMPT = [
+	'You are a data analyst explaining the result of a DuckDB query to the person who ran it.',
+	'You get the query, the tables it can use and summary statistics of its result, never the rows themselves.',
+	'Write a short plain-language summary (at most five sentences) of what the result shows: its size, notable values, spread, gaps and anything surprising.',
+	'Then suggest up to three follow-up DuckDB queries that would dig further, using only the listed tables and columns; the opened file is the table "data".',
+	'Answer with JSON only, in the form {"summary": "...", "followUps": [{"title": "...", "sql": "..."}]}.'
+].join(' ');
+
+export interface RepairAttempt {
+	sql: string;
+	// DuckDB's error for this attempt
+	error: string;
+}
+
+export interface GeneratedSql {
+	sql: string;
+	// Earlier attempts that failed and were sent back to the model
+	repairs: RepairAttempt[];
+	// Set when the last attempt still fails
+	error?: string;
+}
+
+export interface SqlGenerationOptions {
+	provider: AiProvider;
+	model: string;
+	apiKey?: string;
+	prompt: string;
+	// Output of describeSchema
+	schema: string;
+	maxRepairs: number;
+	// Throws DuckDB's error when the SQL does not bind
+	validate: (sql: string) => Promise<void>;
+	onProgress?: (message: string) => void;
+}
+
+export interface FollowUpQuery {
+	title: string;
+	sql: string;
+	// DuckDB's error when the suggested query does not bind
+	error?: string;
+}
+
+export interface ResultExplanation {
+	summary: string;
+	followUps: FollowUpQuery[];
+}
+
+export interface ResultExplanationOptions {
+	provider: AiProvider;
+	model: string;
+	apiKey?: string;
+	sql: string;
+	// Search text and filter conditions applied on top of the query before it was summarized
+	search?: string;
+	where?: string;
+	schema: string;
+	// Output of describeProfiles
+	statistics: string;
+	validate: (sql: string) => Promise<void>;
+}
+
+const sampleValue = (value: unknown): unknown => {
+	if (typeof value === 'bigint') return value.toString();
+	if (value instanceof Date) return value.toISOString();
+	if (typeof value === 'string' && value.length > SAMPLE_VALUE_LENGTH) return `${value.slice(0, SAMPLE_VALUE_LENGTH)}…`;
+	return value;
+};
+
+/** Tables and columns with their types, and a few rows of each table when samples are given. */
+export function describeSchema(tables: TableSchema[], samples: Map<string, Record<string, unknown>[]> = new Map()): string {
+	const sections = tables.map(table => {
+		const origin = table.name === 'data' ? ' (the opened file)' : table.filePath ? ` (attached from ${table.filePath})` : '';
+		const lines = [`Table "${table.name}"${origin}:`, ...table.columns.map(col => `  "${col.name}" ${col.type}`)];
+		const rows = samples.get(table.name) ?? [];
+		if (rows.length > 0) {
+			lines.push('  Sample rows:');
+			rows.forEach(row => lines.push(`  ${JSON.stringify(Object.fromEntries(Object.entries(row).map(([k, v]) => [k, sampleValue(v)])))}`));
+		}
+		return lines.join('\n');
+	});
+	return `Available tables:\n${sections.join('\n\n')}`;
+}
+
+/** The SQL of a model answer, without the markdown fences models add despite being asked not to. */
+export function extractSql(answer: string): string {
+	const fenced = /```(?:sql|duckdb)?\s*\n?([\s\S]*?)```/i.exec(answer);
+	return (fenced ? fenced[1] : answer).trim();
+}
+
+/**
+ * Asks the model for a query and checks it against DuckDB. A query that fails is sent back
+ * with DuckDB's error, up to `maxRepairs` times, so the model can correct names and syntax.
+ */
+export async function generateSql(options: SqlGenerationOptions): Promise<GeneratedSql> {
+	const { provider, model, apiKey, prompt, schema, maxRepairs, validate, onProgress } = options;
+	const messages: ChatMessage[] = [
+		{ role: 'system', content: `${SQL_SYSTEM_PROMPT}\n\n${schema}` },
+		{ role: 'user', content: prompt }
+	];
+	const ask = async () => extractSql(await provider.complete({ model, messages, maxTokens: 800, temperature: 0.1 }, apiKey));
+
+	const repairs: RepairAttempt[] = [];
+	let sql = await ask();
+	if (sql.startsWith(NOT_ABOUT_DATA)) {
+		return { sql, repairs };
+	}
+	for (let attempt = 0; ; attempt++) {
+		try {
+			await validate(sql);
+			return { sql, repairs };
+		} catch (err: any) {
+			const error = err?.message || String(err);
+			if (attempt >= maxRepairs) {
+				return { sql, repairs, error };
+			}
+			repairs.push({ sql, error });
+			onProgress?.(`Fixing the query (attempt ${attempt + 1} of ${maxRepairs})…`);
+			messages.push(
+				{ role: 'assistant', content: sql },
+				{ role: 'user', content: `DuckDB rejected that query with this error:\n${error}\n\nReturn only the corrected query.` }
+			);
+			sql = await ask();
+		}
+	}
+}
+
+const formatStat = (value: number | null | undefined) => value === null || value === undefined ? 'n/a' : Number(value.toPrecision(6)).toString();
+
+/**
+ * Column statistics of a result as prompt text. Without `includeValues` only aggregates
+ * are given, not actual values such as the extremes and the most frequent values.
+ */
+export function describeProfiles(profiles: ColumnProfile[], includeValues: boolean): string {
+	const rows = profiles[0]?.count ?? 0;
+	const lines = profiles.map(p => {
+		const parts = [`${p.count - p.nulls} values`, `${p.nulls} null`, `${p.distinct} distinct`];
+		const numeric = p.mean !== undefined;
+		if (numeric) {
+			if (includeValues) parts.push(`min ${p.min ?? 'n/a'}`, `max ${p.max ?? 'n/a'}`);
+			parts.push(`mean ${formatStat(p.mean)}`, `stddev ${formatStat(p.stddev)}`);
+			if (p.quantiles) parts.push(`quartiles ${formatStat(p.quantiles.q25)} / ${formatStat(p.quantiles.q50)} / ${formatStat(p.quantiles.q75)}`);
+		} else if (includeValues) {
+			parts.push(`min ${JSON.stringify(sampleValue(p.min))}`, `max ${JSON.stringify(sampleValue(p.max))}`);
+		}
+		if (includeValues && p.top.length > 0) {
+			parts.push(`most frequent: ${p.top.slice(0, 5).map(v => `${JSON.stringify(sampleValue(v.value))} (${v.count})`).join(', ')}`);
+		}
+		return `  "${p.name}" ${p.type}: ${parts.join(', ')}`;
+	});
+	return `The result has ${rows} rows and ${profiles.length} columns:\n${lines.join('\n')}`;
+}
+
+/** Reads the JSON answer, falling back to the whole text as the summary when the model ignored the format. */
+function parseExplanation(answer: string): ResultExplanation {
+	const start = answer.indexOf('{');
+	const end = answer.lastIndexOf('}');
+	try {
+		const parsed = JSON.parse(answer.slice(start, end + 1));
+		const followUps: FollowUpQuery[] = (Array.isArray(parsed.followUps) ? parsed.followUps : [])
+			.filter((f: any) => typeof f?.sql === 'string' && f.sql.trim())
+			.map((f: any) => ({ title: typeof f.title === 'string' ? f.title : 'Follow-up query', sql: extractSql(f.sql) }));
+		return { summary: typeof parsed.summary === 'string' ? parsed.summary.trim() : '', followUps };
+	} catch {
+		return { summary: answer.trim(), followUps: [] };
+	}
+}
+
+/** Asks the model what a result shows; suggested follow-up queries are checked against DuckDB but not repaired. */
+export async function explainResult(options: ResultExplanationOptions): Promise<ResultExplanation> {
+	const { provider, model, apiKey, sql, search, where, schema, statistics, validate } = options;
+	// The statistics describe the rows left after the grid's search and filters, so say which those are
+	const narrowing = [
+		search?.trim() ? `Only rows with a value containing ${JSON.stringify(search.trim())} (ignoring case) were kept.` : '',
+		where ? `Rows were then filtered with: WHERE ${where}` : ''
+	].filter(Boolean).join('\n');
+	const answer = await provider.complete({
+		model,
+		messages: [
+			{ role: 'system', content: `${EXPLAIN_SYSTEM_PROMPT}\n\n${schema}` },
+			{ role: 'user', content: `Query:\n${sql}\n\n${narrowing ? `${narrowing}\n\n` : ''}${statistics}` }
+		],
+		maxTokens: 1200,
+		temperature: 0.2
+	}, apiKey);
+	const explanation = parseExplanation(answer);
+	for (const followUp of explanation.followUps) {
+		try {
+			await validate(followUp.sql);
+		} catch (err: any) {
+			followUp.error = err?.message || String(err);
+		}
+	}
+	return explanation;
+}
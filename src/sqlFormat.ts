@@ -0,0 +1,324 @@
+interface Token {
+	kind: 'word' | 'quoted' | 'string' | 'number' | 'comment' | 'op' | 'punct';
+	text: string;
+}
+
+// Paren context: a subquery gets its own indented lines, anything else stays on one line
+interface Frame {
+	kind: 'block' | 'inline';
+	indent: number;
+	// Indent of the line holding the opening paren, where a subquery's closing one goes
+	outer: number;
+	clause: string | null;
+	// Whether commas of the current clause start new lines
+	listBreak: boolean;
+	// Set after BETWEEN so its AND does not break the line
+	between: boolean;
+}
+
+// Words such as `first`, `key` or `rows` are left alone: they are as often column names as keywords
+const KEYWORDS = new Set([
+	'SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'GROUP', 'BY', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'AS', 'JOIN', 'LEFT', 'RIGHT', 'INNER',
+	'OUTER', 'FULL', 'CROSS', 'NATURAL', 'ASOF', 'POSITIONAL', 'SEMI', 'ANTI', 'ON', 'USING', 'IN', 'IS', 'NULL', 'LIKE', 'ILIKE', 'GLOB',
+	'SIMILAR', 'BETWEEN', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'DISTINCT', 'ALL', 'ANY', 'SOME', 'EXISTS', 'UNION', 'EXCEPT', 'INTERSECT',
+	'WITH', 'RECURSIVE', 'MATERIALIZED', 'VALUES', 'INSERT', 'INTO', 'UPDATE', 'SET', 'DELETE', 'CREATE', 'REPLACE', 'TEMP', 'TEMPORARY',
+	'VIEW', 'TABLE', 'DROP', 'IF', 'ALTER', 'RENAME', 'CAST', 'TRY_CAST', 'ASC', 'DESC', 'NULLS', 'OVER', 'PARTITION', 'WINDOW', 'QUALIFY',
+	'FILTER', 'PRECEDING', 'FOLLOWING', 'UNBOUNDED', 'TRUE', 'FALSE', 'PIVOT', 'UNPIVOT', 'EXCLUDE', 'COLUMNS', 'LATERAL', 'DESCRIBE',
+	'SUMMARIZE', 'SHOW', 'EXPLAIN', 'ANALYZE', 'INTERVAL', 'COLLATE', 'RETURNING', 'CONFLICT', 'PRIMARY', 'TABLESAMPLE'
+]);
+
+// Keywords written with a space before `(`; any other word directly followed by `(` is a function call
+const SPACED_BEFORE_PAREN = new Set([
+	'AS', 'IN', 'ON', 'USING', 'VALUES', 'OVER', 'EXISTS', 'AND', 'OR', 'NOT', 'FROM', 'JOIN', 'SELECT', 'WHERE', 'ANY', 'ALL', 'SOME', 'INTO',
+	'TABLE', 'BY', 'WHEN', 'THEN', 'ELSE', 'IS', 'UNION', 'EXCEPT', 'INTERSECT', 'WITH', 'LATERAL', 'PIVOT', 'UNPIVOT', 'EXCLUDE', 'HAVING',
+	'QUALIFY', 'SET', 'RETURNING', 'DISTINCT', 'INTERVAL', 'BETWEEN', 'LIKE', 'ILIKE'
+]);
+
+const CLAUSES = new Set(['SELECT', 'FROM', 'WHERE', 'HAVING', 'LIMIT', 'OFFSET', 'QUALIFY', 'WINDOW', 'WITH', 'VALUES', 'SET', 'RETURNING']);
+const SET_OPERATORS = new Set(['UNION', 'EXCEPT', 'INTERSECT']);
+const JOIN_WORDS = new Set(['NATURAL', 'ASOF', 'POSITIONAL', 'LEFT', 'RIGHT', 'FULL', 'INNER', 'CROSS', 'SEMI', 'ANTI', 'OUTER', 'JOIN']);
+// Clauses whose AND / OR start new lines
+const CONDITIONS = new Set(['WHERE', 'HAVING', 'ON', 'QUALIFY']);
+// Clauses whose commas start new lines once they hold more than one item
+const LISTS = new Set(['SELECT', 'GROUP BY', 'ORDER BY']);
+// Characters that run together into one operator, as in `@>`, `^@`, `&&`, `!~~` or `<=>`
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?';
+// A run may only end in `+` or `-` when it holds one of these, so `=-1` stays `=` and `-1`
+const OPERATOR_MARKERS = /[~!@#%^&|`?]/;
+
+function tokenize(sql: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+	while (i < sql.length) {
+		const ch = sql[i];
+		const rest = sql.slice(i);
+		let match: RegExpExecArray | null;
+		if (/\s/.test(ch)) {
+			i++;
+		} else if (rest.startsWith('--')) {
+			const close = sql.indexOf('\n', i);
+			const end = close === -1 ? sql.length : close;
+			tokens.push({ kind: 'comment', text: sql.slice(i, end).trimEnd() });
+			i = end;
+		} else if (rest.startsWith('/*')) {
+			const close = sql.indexOf('*/', i + 2);
+			const end = close === -1 ? sql.length : close + 2;
+			tokens.push({ kind: 'comment', text: sql.slice(i, end) });
+			i = end;
+		} else if (ch === "'" || ((ch === 'E' || ch === 'e') && sql[i + 1] === "'")) {
+			// A doubled quote escapes itself, so the scan simply resumes after it
+			let end = sql.indexOf("'", i + (ch === "'" ? 1 : 2));
+			while (end !== -1 && sql[end + 1] === "'") end = sql.indexOf("'", end + 2);
+			end = end === -1 ? sql.length : end + 1;
+			tokens.push({ kind: 'string', text: sql.slice(i, end) });
+			i = end;
+		} else if (ch === '"') {
+			let end = sql.indexOf('"', i + 1);
+			while (end !== -1 && sql[end + 1] === '"') end = sql.indexOf('"', end + 2);
+			end = end === -1 ? sql.length : end + 1;
+			tokens.push({ kind: 'quoted', text: sql.slice(i, end) });
+			i = end;
+		} else if ((match = /^\$[A-Za-z_]*\$/.exec(rest))) {
+			const close = sql.indexOf(match[0], i + match[0].length);
+			const end = close === -1 ? sql.length : close + match[0].length;
+			tokens.push({ kind: 'string', text: sql.slice(i, end) });
+			i = end;
+		} else if ((match = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(rest))) {
+			tokens.push({ kind: 'number', text: match[0] });
+			i += match[0].length;
+		} else if ((match = /^(\$\d+|#\d+|\$?[A-Za-z_\u0080-\uFFFF][A-Za-z0-9_$\u0080-\uFFFF]*)/.exec(rest))) {
+			// Like DuckDB, any non-ASCII character may be part of an unquoted identifier; `#1` is a column position
+			tokens.push({ kind: 'word', text: match[0] });
+			i += match[0].length;
+		} else if ('(),;.[]{}'.includes(ch)) {
+			tokens.push({ kind: 'punct', text: ch });
+			i++;
+		} else if (rest.startsWith('::') || rest.startsWith(':=')) {
+			tokens.push({ kind: 'op', text: rest.slice(0, 2) });
+			i += 2;
+		} else if (OPERATOR_CHARS.includes(ch)) {
+			let end = i;
+			while (end < sql.length && OPERATOR_CHARS.includes(sql[end]) && !sql.startsWith('--', end) && !sql.startsWith('/*', end)) end++;
+			let op = sql.slice(i, Math.max(end, i + 1));
+			while (op.length > 1 && /[+-]$/.test(op) && !OPERATOR_MARKERS.test(op)) op = op.slice(0, -1);
+			tokens.push({ kind: 'op', text: op });
+			i += op.length;
+		} else {
+			tokens.push({ kind: 'op', text: ch });
+			i++;
+		}
+	}
+	return tokens;
+}
+
+const upper = (token: Token | undefined) => token?.kind === 'word' ? token.text.toUpperCase() : '';
+
+/**
+ * Lays a query out one clause per line, with subqueries indented and the items of
+ * SELECT, GROUP BY and ORDER BY lists on lines of their own. Keywords are upper-cased;
+ * identifiers, literals and comments are kept as written.
+ */
+export function formatSql(sql: string): string {
+	const tokens = tokenize(sql);
+	const lines: string[] = [];
+	let line = '';
+	let frames: Frame[] = [{ kind: 'block', indent: 0, outer: 0, clause: null, listBreak: false, between: false }];
+	// Suppresses the space after an opening bracket, a dot or a unary sign
+	let glue = true;
+
+	const frame = () => frames[frames.length - 1];
+	const newline = (indent: number) => {
+		if (line.trim()) lines.push(line.trimEnd());
+		line = '\t'.repeat(indent);
+		glue = true;
+	};
+	const write = (text: string, space = true) => {
+		if (space && !glue && line.trim()) line += ' ';
+		line += text;
+		glue = false;
+	};
+	const next = (i: number) => tokens.slice(i + 1).find(t => t.kind !== 'comment');
+
+	// Whether a list clause starting after token `i` has a comma at its own level
+	const hasTopLevelComma = (i: number): boolean => {
+		let depth = 0;
+		for (let j = i + 1; j < tokens.length; j++) {
+			const t = tokens[j];
+			if (t.text === '(' || t.text === '[' || t.text === '{') depth++;
+			else if (t.text === ')' || t.text === ']' || t.text === '}') { if (--depth < 0) return false; }
+			else if (t.text === ';') return false;
+			else if (depth === 0 && t.text === ',') return true;
+			else if (depth === 0 && (CLAUSES.has(upper(t)) || SET_OPERATORS.has(upper(t)) || upper(t) === 'GROUP' || upper(t) === 'ORDER' || upper(t) === 'INTO')) return false;
+		}
+		return false;
+	};
+
+	const startClause = (clause: string, indent: number) => {
+		const f = frame();
+		newline(indent);
+		f.clause = clause;
+		f.listBreak = false;
+		f.between = false;
+	};
+
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		const word = upper(token);
+		const f = frame();
+		const following = next(i);
+
+		if (token.kind === 'comment') {
+			write(token.text);
+			if (token.text.startsWith('--')) newline(f.kind === 'block' && f.listBreak ? f.indent + 1 : f.indent);
+			continue;
+		}
+
+		if (token.kind === 'word') {
+			// Keywords used as function names (`left(s, 2)`, `replace(...)`) keep their spelling
+			const isCall = following?.text === '(' && !SPACED_BEFORE_PAREN.has(word);
+			const text = KEYWORDS.has(word) && !isCall ? word : token.text;
+
+			if (f.kind === 'block' && !isCall) {
+				if ((word === 'GROUP' || word === 'ORDER') && upper(following) === 'BY') {
+					startClause(`${word} BY`, f.indent);
+					write(`${word} BY`);
+					i = tokens.indexOf(following as Token, i);
+					if (hasTopLevelComma(i)) {
+						f.listBreak = true;
+						newline(f.indent + 1);
+					}
+					continue;
+				}
+				if (JOIN_WORDS.has(word)) {
+					// A run of join words ending in JOIN, e.g. LEFT OUTER JOIN
+					const run: Token[] = [];
+					for (let j = i; j < tokens.length && JOIN_WORDS.has(upper(tokens[j])); j++) {
+						run.push(tokens[j]);
+						if (upper(tokens[j]) === 'JOIN') break;
+					}
+					if (upper(run[run.length - 1]) === 'JOIN') {
+						startClause('JOIN', f.indent);
+						write(run.map(t => t.text.toUpperCase()).join(' '));
+						i += run.length - 1;
+						continue;
+					}
+				}
+				if (SET_OPERATORS.has(word)) {
+					startClause(word, f.indent);
+					write(word);
+					while (['ALL', 'DISTINCT', 'BY', 'NAME'].includes(upper(tokens[i + 1]))) {
+						write(upper(tokens[++i]));
+					}
+					newline(f.indent);
+					continue;
+				}
+				if (CLAUSES.has(word)) {
+					startClause(word, f.indent);
+					write(word);
+					if (word === 'SELECT' && upper(following) === 'DISTINCT') {
+						write('DISTINCT');
+						i = tokens.indexOf(following as Token, i);
+					}
+					if (word === 'WITH') {
+						f.listBreak = true;
+					} else if (LISTS.has(word) && hasTopLevelComma(i)) {
+						f.listBreak = true;
+						newline(f.indent + 1);
+					}
+					continue;
+				}
+				if (word === 'ON' && f.clause === 'JOIN') {
+					f.clause = 'ON';
+				} else if (word === 'BETWEEN') {
+					f.between = true;
+				} else if ((word === 'AND' || word === 'OR') && f.clause && CONDITIONS.has(f.clause)) {
+					if (word === 'AND' && f.between) {
+						f.between = false;
+					} else {
+						newline(f.indent + 1);
+					}
+				}
+			}
+			write(text);
+			continue;
+		}
+
+		if (token.text === '(') {
+			const prev = tokens[i - 1];
+			// No space for calls, `AS t(a, b)` column lists and indexing into an expression
+			const tight = prev && (prev.kind === 'quoted' || (prev.kind === 'word' && !SPACED_BEFORE_PAREN.has(upper(prev))) || prev.text === ')');
+			write('(', !tight);
+			const subquery = upper(following) === 'SELECT' || upper(following) === 'WITH';
+			const outer = /^\t*/.exec(line)?.[0].length ?? 0;
+			frames.push({ kind: subquery ? 'block' : 'inline', indent: subquery ? outer + 1 : f.indent, outer, clause: null, listBreak: false, between: false });
+			if (subquery) newline(outer + 1);
+			glue = true;
+			continue;
+		}
+		if (token.text === ')') {
+			if (frames.length === 1) {
+				write(')', false);
+				continue;
+			}
+			frames.pop();
+			if (f.kind === 'block') newline(f.outer);
+			write(')', false);
+			continue;
+		}
+		if (token.text === ',') {
+			write(',', false);
+			if (f.kind === 'block' && f.listBreak) newline(f.clause === 'WITH' ? f.indent : f.indent + 1);
+			continue;
+		}
+		if (token.text === ';') {
+			write(';', false);
+			newline(0);
+			// A blank line between statements
+			if (next(i)) lines.push('');
+			frames = [{ kind: 'block', indent: 0, outer: 0, clause: null, listBreak: false, between: false }];
+			continue;
+		}
+		if (token.text === '.' || token.text === '::' || token.text === ':') {
+			write(token.text, false);
+			glue = true;
+			continue;
+		}
+		// List and struct literals keep their commas on one line, like a parenthesized list
+		if (token.text === '[') {
+			const prev = tokens[i - 1];
+			write('[', !(prev && (prev.kind === 'word' || prev.kind === 'quoted' || prev.text === ')' || prev.text === ']')));
+			frames.push({ kind: 'inline', indent: f.indent, outer: f.outer, clause: null, listBreak: false, between: false });
+			glue = true;
+			continue;
+		}
+		if (token.text === ']' || token.text === '}') {
+			if (frames.length > 1) frames.pop();
+			write(token.text, false);
+			continue;
+		}
+		if (token.text === '{') {
+			write('{');
+			frames.push({ kind: 'inline', indent: f.indent, outer: f.outer, clause: null, listBreak: false, between: false });
+			glue = true;
+			continue;
+		}
+		if ((token.text === '-' || token.text === '+') && isOperand(tokens[i - 1]) === false) {
+			// A sign rather than an operator, written against its operand
+			write(token.text);
+			glue = true;
+			continue;
+		}
+		write(token.text);
+	}
+	newline(0);
+	while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+	return lines.join('\n');
+}
+
+/** Whether a token can end an operand, making a following `-` a subtraction. */
+function isOperand(token: Token | undefined): boolean {
+	if (!token) return false;
+	if (token.kind === 'op' || token.kind === 'comment') return false;
+	if (token.kind === 'punct') return token.text === ')' || token.text === ']' || token.text === '}';
+	return token.kind !== 'word' || !KEYWORDS.has(token.text.toUpperCase()) || ['NULL', 'TRUE', 'FALSE', 'END'].includes(token.text.toUpperCase());
+}
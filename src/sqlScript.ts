@@ -0,0 +1,88 @@
+export interface ScriptStatement {
+	// Statement text without its terminating semicolon
+	text: string;
+	// 1-based line of the editor the statement starts on
+	line: number;
+}
+
+// Statements that return rows and can be paged as `SELECT * FROM (statement)`
+const QUERY_START = /^(\(|select\b|with\b|from\b|values\b|table\b|pivot\b|unpivot\b|describe\b|show\b|summarize\b)/i;
+
+/**
+ * Splits a script on the semicolons between statements, ignoring semicolons inside
+ * quotes, dollar-quoted strings and comments. Statements that hold only comments are dropped.
+ */
+export function splitStatements(script: string): ScriptStatement[] {
+	const statements: ScriptStatement[] = [];
+	let start = 0;
+	let i = 0;
+
+	const push = (end: number) => {
+		const raw = script.slice(start, end);
+		if (stripComments(raw).trim()) {
+			// Leading comments are kept with the statement, but its line is where the code starts
+			const line = script.slice(0, start + codeStart(raw)).split('\n').length;
+			statements.push({ text: raw.trim(), line });
+		}
+		start = end + 1;
+	};
+
+	while (i < script.length) {
+		const ch = script[i];
+		const next = script[i + 1];
+		if (ch === "'" || ch === '"') {
+			// A doubled quote inside a literal or identifier escapes it, so it just continues the scan
+			const close = script.indexOf(ch, i + 1);
+			i = close === -1 ? script.length : close + 1;
+		} else if (ch === '-' && next === '-') {
+			const close = script.indexOf('\n', i);
+			i = close === -1 ? script.length : close + 1;
+		} else if (ch === '/' && next === '*') {
+			const close = script.indexOf('*/', i + 2);
+			i = close === -1 ? script.length : close + 2;
+		} else if (ch === '$') {
+			const tag = /^\$[A-Za-z_]*\$/.exec(script.slice(i));
+			if (tag) {
+				const close = script.indexOf(tag[0], i + tag[0].length);
+				i = close === -1 ? script.length : close + tag[0].length;
+			} else {
+				i++;
+			}
+		} else if (ch === ';') {
+			push(i);
+			i++;
+		} else {
+			i++;
+		}
+	}
+	push(script.length);
+	return statements;
+}
+
+/** Whether a statement returns rows to show, as opposed to one that only changes the session. */
+export function isQueryStatement(statement: string): boolean {
+	return QUERY_START.test(stripComments(statement).trim());
+}
+
+/** Offset of the first character that is neither whitespace nor part of a comment. */
+function codeStart(sql: string): number {
+	let i = 0;
+	while (i < sql.length) {
+		if (/\s/.test(sql[i])) {
+			i++;
+		} else if (sql.startsWith('--', i)) {
+			const close = sql.indexOf('\n', i);
+			i = close === -1 ? sql.length : close + 1;
+		} else if (sql.startsWith('/*', i)) {
+			const close = sql.indexOf('*/', i + 2);
+			i = close === -1 ? sql.length : close + 2;
+		} else {
+			break;
+		}
+	}
+	return i;
+}
+
+function stripComments(sql: string): string {
+	return sql.replace(/--[^\n]*/g, ' ').replace(/\/\*[\s\S]*?\*\//g, ' ');
+}
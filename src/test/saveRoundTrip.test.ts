@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { test } from 'node:test';
+import { detectCsvDialect, readCsvLayout, toCsv } from '../csvDialect';
+
+const CSV = 'id,day,price,note\n1,2020-01-01,1.50,first\n# checked by hand\n2,2020-02-03,2.00,NA\n3,2021-12-31,10.25,"x,y"';
+
+// The session needs DuckDB's native binding, which not every checkout has built
+const hasDuckDb = (() => {
+	try {
+		require('duckdb');
+		return true;
+	} catch {
+		return false;
+	}
+})();
+
+function tempFile(name: string, content: string): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flat-file-reader-'));
+	const file = path.join(dir, name);
+	fs.writeFileSync(file, content);
+	return file;
+}
+
+test('writes CSV text rows back as they were read', () => {
+	const file = tempFile('prices.csv', CSV);
+	const dialect = detectCsvDialect(file, ',');
+	const rows = [['1', '2020-01-01', '1.50', 'first'], ['2', '2020-02-03', '2.00', 'NA'], ['3', '2021-12-31', '10.25', 'x,y']];
+	const columns = ['id', 'day', 'price', 'note'];
+	assert.strictEqual(toCsv(columns, rows, dialect, readCsvLayout(file, dialect)), CSV);
+
+	rows[1][3] = 'checked';
+	assert.strictEqual(toCsv(columns, rows, dialect, readCsvLayout(file, dialect)), CSV.replace('2.00,NA', '2.00,checked'));
+});
+
+test('keeps dates and decimals of a CSV file as written after one cell is edited', { skip: !hasDuckDb && 'DuckDB native binding not built' }, async () => {
+	const { FileSession } = await import('../fileLoader');
+	const file = tempFile('prices.csv', CSV);
+	const session = new FileSession(file);
+	try {
+		const data = await session.readEditable();
+		data.rows[0][3] = 'edited';
+		const dialect = detectCsvDialect(file, ',');
+		assert.strictEqual(toCsv(data.columns, data.rows, dialect, readCsvLayout(file, dialect)), CSV.replace('1.50,first', '1.50,edited'));
+	} finally {
+		session.close();
+	}
+});
+
+test('keeps JSON dates as the strings in the file', { skip: !hasDuckDb && 'DuckDB native binding not built' }, async () => {
+	const { FileSession } = await import('../fileLoader');
+	const file = tempFile('prices.jsonl', '{"id": 1, "day": "2020-01-01", "price": 1.5}\n{"id": 2, "day": "2020-02-03", "price": 2}\n');
+	const session = new FileSession(file);
+	try {
+		const data = await session.readEditable();
+		assert.deepStrictEqual(data.rows, [[1, '2020-01-01', 1.5], [2, '2020-02-03', 2]]);
+	} finally {
+		session.close();
+	}
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { formatSql } from '../sqlFormat';
+
+test('keeps multi-character operators whole', () => {
+	assert.strictEqual(formatSql('SELECT * FROM t WHERE tags @> [1]'), 'SELECT *\nFROM t\nWHERE tags @> [1]');
+	assert.strictEqual(formatSql("SELECT * FROM t WHERE name ^@ 'ab'"), "SELECT *\nFROM t\nWHERE name ^@ 'ab'");
+	assert.strictEqual(formatSql('SELECT * FROM t WHERE a && b'), 'SELECT *\nFROM t\nWHERE a && b');
+	assert.strictEqual(formatSql("SELECT * FROM t WHERE name !~~ 'a%'"), "SELECT *\nFROM t\nWHERE name !~~ 'a%'");
+});
+
+test('keeps column positions whole', () => {
+	assert.strictEqual(formatSql('SELECT a, count(*) FROM t GROUP BY #1 ORDER BY #1'), 'SELECT\n\ta,\n\tcount(*)\nFROM t\nGROUP BY #1\nORDER BY #1');
+});
+
+test('keeps non-ASCII identifiers whole', () => {
+	assert.strictEqual(formatSql('SELECT café FROM t'), 'SELECT café\nFROM t');
+	assert.strictEqual(formatSql('SELECT naïve_col, größe FROM t'), 'SELECT\n\tnaïve_col,\n\tgröße\nFROM t');
+});
+
+test('splits a trailing sign off an operator', () => {
+	assert.strictEqual(formatSql('SELECT a=-1, y*-2 FROM t'), 'SELECT\n\ta = -1,\n\ty * -2\nFROM t');
+});
+
+test('keeps named arguments whole', () => {
+	assert.strictEqual(formatSql('SELECT unnest(x, max_depth := 2) FROM t'), 'SELECT unnest(x, max_depth := 2)\nFROM t');
+});
+
+test('keeps list and struct literals on one line', () => {
+	assert.strictEqual(formatSql("SELECT {'a':1,'b':[1,2]} AS s FROM t"), "SELECT {'a':1, 'b':[1, 2]} AS s\nFROM t");
+	assert.strictEqual(formatSql('SELECT [1,2,3] AS l, x FROM t'), 'SELECT\n\t[1, 2, 3] AS l,\n\tx\nFROM t');
+});
@@ -0,0 +1,76 @@
+export type ColumnType = 'BOOLEAN' | 'BIGINT' | 'DOUBLE' | 'DATE' | 'TIMESTAMP' | 'VARCHAR';
+
+// Column type overrides per table name, then per column
+export type ColumnTypeOverrides = Record<string, Record<string, string>>;
+
+export const COLUMN_TYPES: ColumnType[] = ['VARCHAR', 'BIGINT', 'DOUBLE', 'BOOLEAN', 'DATE', 'TIMESTAMP'];
+
+const INTEGER = /^[-+]?(0|[1-9]\d*)$/;
+const DECIMAL = /^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/;
+const BOOLEAN = /^(true|false)$/i;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+function isMidnight(d: Date): boolean {
+	return d.getUTCHours() === 0 && d.getUTCMinutes() === 0 && d.getUTCSeconds() === 0 && d.getUTCMilliseconds() === 0;
+}
+
+/** Type of a single value, or null when it says nothing (empty cells). */
+function valueType(value: any, sniffStrings: boolean): ColumnType | null {
+	if (value === null || value === undefined || value === '') return null;
+	if (typeof value === 'boolean') return 'BOOLEAN';
+	if (typeof value === 'number') return Number.isSafeInteger(value) ? 'BIGINT' : 'DOUBLE';
+	if (typeof value === 'bigint') return 'BIGINT';
+	if (value instanceof Date) return isMidnight(value) ? 'DATE' : 'TIMESTAMP';
+	if (!sniffStrings) return 'VARCHAR';
+
+	const text = String(value).trim();
+	if (text === '') return null;
+	if (INTEGER.test(text)) return Number.isSafeInteger(Number(text)) ? 'BIGINT' : 'VARCHAR';
+	// Leading zeros (zip codes, ids) are text, not numbers
+	if (/^[-+]?0\d/.test(text)) return 'VARCHAR';
+	if (DECIMAL.test(text)) return 'DOUBLE';
+	if (BOOLEAN.test(text)) return 'BOOLEAN';
+	if (DATE.test(text)) return 'DATE';
+	if (TIMESTAMP.test(text)) return 'TIMESTAMP';
+	return 'VARCHAR';
+}
+
+function widen(a: ColumnType, b: ColumnType): ColumnType {
+	if (a === b) return a;
+	const pair = new Set([a, b]);
+	if (pair.has('BIGINT') && pair.has('DOUBLE')) return 'DOUBLE';
+	if (pair.has('DATE') && pair.has('TIMESTAMP')) return 'TIMESTAMP';
+	return 'VARCHAR';
+}
+
+/**
+ * Infers a DuckDB type per column from imported values. Typed values (numbers, dates,
+ * booleans) always count; strings are only sniffed when `sniffStrings` is set, as for XML text.
+ */
+export function inferColumnTypes(rows: any[][], columnCount: number, sniffStrings: boolean): ColumnType[] {
+	const types: Array<ColumnType | null> = new Array(columnCount).fill(null);
+	for (const row of rows) {
+		for (let i = 0; i < columnCount; i++) {
+			if (types[i] === 'VARCHAR') continue;
+			const t = valueType(row[i], sniffStrings);
+			if (t) types[i] = types[i] ? widen(types[i] as ColumnType, t) : t;
+		}
+	}
+	return types.map(t => t ?? 'VARCHAR');
+}
+
+function pad(n: number, width = 2): string {
+	return String(n).padStart(width, '0');
+}
+
+/** Text form of a value that DuckDB can cast to the inferred type. */
+export function toSqlText(value: any): string | null {
+	if (value === null || value === undefined || value === '') return null;
+	if (value instanceof Date) {
+		const date = `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+		if (isMidnight(value)) return date;
+		return `${date} ${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}.${pad(value.getUTCMilliseconds(), 3)}`;
+	}
+	return String(value);
+}
@@ -2,14 +2,26 @@ declare module 'duckdb' {
   export class Database {
     constructor(path: string);
     connect(): Connection;
+    close(callback?: (err: Error | null) => void): void;
+    interrupt(): void;
   }
 
   export class Connection {
-    run(sql: string, callback?: (err: Error | null) => void): void;
+    close(callback?: (err: Error | null) => void): void;
+    run(sql: string, ...args: any[]): void;
     all(sql: string, callback: (err: Error | null, rows: any[]) => void): void;
+    stream(sql: string): AsyncIterable<any>;
   }
 }
 
 declare module 'papaparse' {
-  export function unparse(data: { fields: string[], data: any[][] }): string;
+  export interface UnparseConfig {
+    delimiter?: string;
+    quoteChar?: string;
+    escapeChar?: string;
+    header?: boolean;
+    newline?: string;
+  }
+
+  export function unparse(data: { fields: string[], data: any[][] }, config?: UnparseConfig): string;
 }
@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as duckdb from 'duckdb';
+import { XMLParser } from 'fast-xml-parser';
+import { createEmptyTable, createTypedTable } from './duckdbUtils';
+import { ColumnTypeOverrides, inferColumnTypes, toSqlText } from './typeInference';
+
+export interface XmlOptions {
+	// Slash-separated element path of the records, e.g. "rss/channel/item"
+	recordPath?: string;
+}
+
+export interface XmlPathInfo {
+	path: string;
+	count: number;
+	// Occurs more than once under the same parent
+	repeating: boolean;
+	// Has child elements or attributes, so it can be a record
+	hasChildren: boolean;
+}
+
+export interface XmlImportResult {
+	paths: XmlPathInfo[];
+	recordPath: string;
+	// Tables holding repeating children of a record, linked by `_parent_id` to `data._row_id`
+	childTables: string[];
+}
+
+const ATTR_PREFIX = '@_';
+const TEXT_NODE = '#text';
+
+const isObject = (value: any): value is Record<string, any> => value !== null && typeof value === 'object' && !Array.isArray(value);
+const asArray = (value: any): any[] => Array.isArray(value) ? value : [value];
+
+export async function importXml(con: duckdb.Connection, filePath: string, options: XmlOptions, columnTypes: ColumnTypeOverrides = {}, table = 'data'): Promise<XmlImportResult> {
+	const parser = new XMLParser({
+		ignoreAttributes: false,
+		attributeNamePrefix: ATTR_PREFIX,
+		textNodeName: TEXT_NODE,
+		ignoreDeclaration: true,
+		ignorePiTags: true,
+		// Keep values as text; types are sniffed per column instead
+		parseTagValue: false,
+		parseAttributeValue: false
+	});
+	const parsed = parser.parse(fs.readFileSync(filePath, 'utf-8'));
+
+	const paths = collectPaths(parsed);
+	const recordPath = options.recordPath && paths.some(p => p.path === options.recordPath) ? options.recordPath : defaultRecordPath(paths);
+	options.recordPath = recordPath;
+
+	const records = recordPath ? selectNodes(parsed, recordPath.split('/')) : [];
+	const objects = records.map(record => isObject(record) ? record : { [TEXT_NODE]: record });
+	if (objects.length === 0) {
+		await createEmptyTable(con, table);
+		return { paths, recordPath, childTables: [] };
+	}
+
+	// A child that repeats in any record becomes a child table for every record
+	const repeating = new Set<string>();
+	objects.forEach(record => findRepeating(record, '', repeating));
+
+	const rows: Array<Record<string, any>> = [];
+	const children = new Map<string, Array<Record<string, any>>>();
+	objects.forEach((record, index) => {
+		const rowId = index + 1;
+		const row: Record<string, any> = { _row_id: rowId };
+		flattenNode(record, '', row, repeating, (key, items) => {
+			const childRows = children.get(key) ?? [];
+			items.forEach(item => {
+				const childRow: Record<string, any> = { _parent_id: rowId };
+				// Deeper repetition inside a child row is kept as JSON text
+				flattenNode(isObject(item) ? item : { [TEXT_NODE]: item }, '', childRow, new Set(), (nestedKey, nested) => {
+					childRow[nestedKey] = JSON.stringify(nested);
+				}, key);
+				childRows.push(childRow);
+			});
+			children.set(key, childRows);
+		});
+		rows.push(row);
+	});
+
+	await createTableFromObjects(con, table, rows, columnTypes[table] ?? {});
+	const childTables: string[] = [];
+	for (const [key, childRows] of children) {
+		const childTable = `${table}_${key}`;
+		await createTableFromObjects(con, childTable, childRows, columnTypes[childTable] ?? {});
+		childTables.push(childTable);
+	}
+	return { paths, recordPath, childTables };
+}
+
+/** Every element path in the document with how often it occurs. */
+function collectPaths(parsed: any): XmlPathInfo[] {
+	const byPath = new Map<string, XmlPathInfo>();
+	const walk = (node: any, prefix: string) => {
+		if (!isObject(node)) return;
+		for (const [key, value] of Object.entries(node)) {
+			if (key.startsWith(ATTR_PREFIX) || key === TEXT_NODE) continue;
+			const path = prefix ? `${prefix}/${key}` : key;
+			const items = asArray(value);
+			const info = byPath.get(path) ?? { path, count: 0, repeating: false, hasChildren: false };
+			info.count += items.length;
+			info.repeating = info.repeating || items.length > 1;
+			info.hasChildren = info.hasChildren || items.some(item => isObject(item) && Object.keys(item).some(k => k !== TEXT_NODE));
+			byPath.set(path, info);
+			items.forEach(item => walk(item, path));
+		}
+	};
+	walk(parsed, '');
+	return Array.from(byPath.values());
+}
+
+/** The most frequent repeating element with structure, preferring shallower paths on ties. */
+function defaultRecordPath(paths: XmlPathInfo[]): string {
+	const depth = (p: XmlPathInfo) => p.path.split('/').length;
+	const candidates = paths.filter(p => p.repeating && p.hasChildren);
+	const pool = candidates.length > 0 ? candidates : paths.filter(p => p.repeating);
+	if (pool.length > 0) {
+		return pool.reduce((best, p) => p.count > best.count || (p.count === best.count && depth(p) < depth(best)) ? p : best).path;
+	}
+	// Nothing repeats: treat the root element as a single record
+	return paths.length > 0 ? paths.reduce((best, p) => depth(p) < depth(best) ? p : best).path : '';
+}
+
+function selectNodes(parsed: any, segments: string[]): any[] {
+	let nodes: any[] = [parsed];
+	for (const segment of segments) {
+		nodes = nodes.flatMap(node => isObject(node) && segment in node ? asArray(node[segment]) : []);
+	}
+	return nodes;
+}
+
+function findRepeating(node: Record<string, any>, prefix: string, repeating: Set<string>): void {
+	for (const [key, value] of Object.entries(node)) {
+		if (key.startsWith(ATTR_PREFIX) || key === TEXT_NODE) continue;
+		const path = prefix ? `${prefix}_${key}` : key;
+		if (Array.isArray(value)) {
+			repeating.add(path);
+		} else if (isObject(value)) {
+			findRepeating(value, path, repeating);
+		}
+	}
+}
+
+/**
+ * Flattens one element into `row`: nested single elements become underscore-joined columns,
+ * attributes become `<element>_<attribute>` columns and text becomes the element's own column.
+ */
+function flattenNode(node: Record<string, any>, prefix: string, row: Record<string, any>, repeating: Set<string>, onRepeating: (key: string, items: any[]) => void, textColumn = 'text'): void {
+	for (const [key, value] of Object.entries(node)) {
+		if (key === TEXT_NODE) {
+			row[prefix || textColumn] = value;
+			continue;
+		}
+		if (key.startsWith(ATTR_PREFIX)) {
+			const attr = key.slice(ATTR_PREFIX.length);
+			// An attribute sharing its name with a child element gets a suffix
+			const name = attr in node ? `${attr}_attr` : attr;
+			row[prefix ? `${prefix}_${name}` : name] = value;
+			continue;
+		}
+		const path = prefix ? `${prefix}_${key}` : key;
+		if (Array.isArray(value) || repeating.has(path)) {
+			onRepeating(path, asArray(value));
+		} else if (isObject(value)) {
+			flattenNode(value, path, row, repeating, onRepeating);
+		} else {
+			row[path] = value;
+		}
+	}
+}
+
+async function createTableFromObjects(con: duckdb.Connection, table: string, objects: Array<Record<string, any>>, columnTypes: Record<string, string>): Promise<void> {
+	const keys = new Set<string>();
+	objects.forEach(obj => Object.keys(obj).forEach(key => keys.add(key)));
+	const columns = Array.from(keys);
+	const rows = objects.map(obj => columns.map(col => toSqlText(obj[col])));
+	// XML values are all text, so sniff them for numbers, booleans and dates
+	const types = inferColumnTypes(rows, columns.length, true).map((type, i) => columnTypes[columns[i]] ?? type);
+	await createTypedTable(con, table, columns, types, rows);
+}
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+
+type ColumnAliasPanelProps = {
+	// Original headers of the `data` table
+	columns: string[];
+	aliases: Record<string, string>;
+	onApply: (aliases: Record<string, string>) => void;
+	onClose: () => void;
+};
+
+const inputClass = 'w-full px-3 py-1.5 bg-gray-800 border border-gray-600 rounded-md text-sm text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/** Turns a header such as "Order Date (UTC)" into a name that needs no quoting: order_date_utc. */
+const suggestAlias = (column: string): string => {
+	const name = column.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+	return /^[a-z_]/.test(name) ? name : `c_${name}`;
+};
+
+export const ColumnAliasPanel: React.FC<ColumnAliasPanelProps> = ({ columns, aliases, onApply, onClose }) => {
+	const [draft, setDraft] = useState<Record<string, string>>({ ...aliases });
+
+	const suggestAll = () => {
+		const next: Record<string, string> = {};
+		columns.forEach(col => {
+			const alias = suggestAlias(col);
+			if (alias !== col) next[col] = alias;
+		});
+		setDraft(next);
+	};
+
+	return (
+		<div className="grid gap-4">
+			<p className="text-sm text-gray-400">
+				Queries, search and filters use the alias; saving the file keeps the original headers.
+			</p>
+			<div className="grid grid-cols-2 gap-x-4 gap-y-2 max-h-[50vh] overflow-y-auto pr-1">
+				<div className="text-xs uppercase tracking-wide text-gray-500">Column</div>
+				<div className="text-xs uppercase tracking-wide text-gray-500">Alias</div>
+				{columns.map(col => (
+					<React.Fragment key={col}>
+						<div className="self-center truncate font-mono text-sm text-gray-200" title={col}>{col}</div>
+						<input
+							value={draft[col] ?? ''}
+							onChange={(e) => setDraft({ ...draft, [col]: e.target.value })}
+							placeholder={col}
+							className={inputClass}
+						/>
+					</React.Fragment>
+				))}
+			</div>
+			<div className="flex justify-between gap-3">
+				<div className="flex gap-2">
+					<button onClick={suggestAll} className="px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">Suggest names</button>
+					<button onClick={() => setDraft({})} className="px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">Clear all</button>
+				</div>
+				<div className="flex gap-3">
+					<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} onClick={onClose} className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-all duration-200">
+						Cancel
+					</motion.button>
+					<motion.button
+						whileTap={{ scale: 0.95 }}
+						whileHover={{ scale: 1.02 }}
+						onClick={() => onApply(draft)}
+						className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-blue-600 text-white rounded-md font-medium hover:from-cyan-600 hover:to-blue-700 transition-all duration-200"
+					>
+						Apply
+					</motion.button>
+				</div>
+			</div>
+		</div>
+	);
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+
+export type CsvDialect = {
+	delimiter: string;
+	quote: string;
+	escape: string;
+	header: boolean;
+	skipRows: number;
+	comment: string;
+	nullStrings: string[];
+};
+
+type CsvOptionsPanelProps = {
+	dialect: CsvDialect;
+	onApply: (dialect: CsvDialect) => void;
+	onAutoDetect: () => void;
+	onClose: () => void;
+};
+
+const DELIMITERS: Array<{ value: string; label: string }> = [
+	{ value: ',', label: 'Comma (,)' },
+	{ value: ';', label: 'Semicolon (;)' },
+	{ value: '\t', label: 'Tab' },
+	{ value: '|', label: 'Pipe (|)' },
+	{ value: ':', label: 'Colon (:)' },
+];
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const CsvOptionsPanel: React.FC<CsvOptionsPanelProps> = ({ dialect, onApply, onAutoDetect, onClose }) => {
+	const [draft, setDraft] = useState<CsvDialect>(dialect);
+	const [nullText, setNullText] = useState<string>(dialect.nullStrings.join(', '));
+	const isCustomDelimiter = !DELIMITERS.some(d => d.value === draft.delimiter);
+
+	useEffect(() => {
+		setDraft(dialect);
+		setNullText(dialect.nullStrings.join(', '));
+	}, [dialect]);
+
+	const update = (patch: Partial<CsvDialect>) => setDraft(prev => ({ ...prev, ...patch }));
+
+	const apply = () => {
+		const nullStrings = nullText.split(',').map(s => s.trim()).filter(s => s.length > 0);
+		onApply({ ...draft, nullStrings });
+	};
+
+	return (
+		<div className="grid gap-4">
+			<div className="grid grid-cols-2 gap-4">
+				<div>
+					<label className="block text-sm font-medium text-gray-300 mb-2">Delimiter</label>
+					<select
+						value={isCustomDelimiter ? 'custom' : draft.delimiter}
+						onChange={(e) => update({ delimiter: e.target.value === 'custom' ? '' : e.target.value })}
+						className={inputClass}
+					>
+						{DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+						<option value="custom">Custom…</option>
+					</select>
+					{isCustomDelimiter && (
+						<input className={`${inputClass} mt-2`} maxLength={1} value={draft.delimiter} onChange={(e) => update({ delimiter: e.target.value })} placeholder="Delimiter character" />
+					)}
+				</div>
+				<div className="flex items-end gap-2 pb-2">
+					<input id="csv-header" type="checkbox" checked={draft.header} onChange={(e) => update({ header: e.target.checked })} />
+					<label htmlFor="csv-header" className="text-sm text-gray-300">First row is a header</label>
+				</div>
+				<div>
+					<label className="block text-sm font-medium text-gray-300 mb-2">Quote</label>
+					<input className={inputClass} maxLength={1} value={draft.quote} onChange={(e) => update({ quote: e.target.value })} />
+				</div>
+				<div>
+					<label className="block text-sm font-medium text-gray-300 mb-2">Escape</label>
+					<input className={inputClass} maxLength={1} value={draft.escape} onChange={(e) => update({ escape: e.target.value })} />
+				</div>
+				<div>
+					<label className="block text-sm font-medium text-gray-300 mb-2">Skip rows</label>
+					<input className={inputClass} type="number" min={0} value={draft.skipRows} onChange={(e) => update({ skipRows: Math.max(0, parseInt(e.target.value, 10) || 0) })} />
+				</div>
+				<div>
+					<label className="block text-sm font-medium text-gray-300 mb-2">Comment prefix</label>
+					<input className={inputClass} value={draft.comment} onChange={(e) => update({ comment: e.target.value })} placeholder="None" />
+				</div>
+			</div>
+			<div>
+				<label className="block text-sm font-medium text-gray-300 mb-2">Null strings (comma separated)</label>
+				<input className={inputClass} value={nullText} onChange={(e) => setNullText(e.target.value)} placeholder="e.g. NULL, NA, \N" />
+			</div>
+			<div className="flex justify-end gap-3">
+				<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} onClick={onAutoDetect} className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-all duration-200">
+					Auto-detect
+				</motion.button>
+				<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} onClick={onClose} className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-all duration-200">
+					Cancel
+				</motion.button>
+				<motion.button
+					whileTap={{ scale: 0.95 }}
+					whileHover={{ scale: 1.02 }}
+					disabled={!draft.delimiter}
+					onClick={apply}
+					className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-blue-600 text-white rounded-md font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:from-cyan-600 hover:to-blue-700 transition-all duration-200"
+				>
+					Re-import
+				</motion.button>
+			</div>
+		</div>
+	);
+};
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useMemo } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   BarChart,
@@ -19,9 +19,37 @@ import {
 } from 'recharts';
 import html2canvas from 'html2canvas';
 
+export type AggregateFunction = 'sum' | 'avg' | 'count' | 'min' | 'max' | 'countDistinct';
+
+export type DateBucket = 'day' | 'week' | 'month';
+
+export type ChartMeasure = {
+  column?: string;
+  fn: AggregateFunction;
+};
+
+export type ChartSpec = {
+  groupBy: string;
+  bucket?: DateBucket;
+  measures: ChartMeasure[];
+  limit: number;
+};
+
+export type ChartData = {
+  key: string;
+  series: string[];
+  rows: Record<string, string | number | null>[];
+  groups: number;
+};
+
 interface DashboardProps {
-  data: any[][];
   columns: string[];
+  types: string[];
+  chart: ChartData | null;
+  error: string | null;
+  loading: boolean;
+  // Aggregation runs in the extension over every matching row, not just the page on screen
+  onRequest: (spec: ChartSpec) => void;
   onClose: () => void;
 }
 
@@ -29,40 +57,63 @@ type ChartType = 'bar' | 'line' | 'pie' | 'scatter';
 
 const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7c7c', '#8dd1e1', '#d084d0'];
 
-const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
-  const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
+const FUNCTIONS: Array<{ value: AggregateFunction; label: string }> = [
+  { value: 'count', label: 'Count' },
+  { value: 'countDistinct', label: 'Distinct count' },
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' }
+];
+
+const TOP_N = [10, 20, 50, 100, 0];
+
+const NUMERIC_TYPE = /^(U?(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT)|FLOAT|REAL|DOUBLE|DECIMAL(\(.*\))?)$/;
+const DATE_TYPE = /^(DATE|TIMESTAMP.*)$/;
+const BUCKETABLE_TYPE = /^(DATE|TIMESTAMP.*|VARCHAR)$/;
+
+const selectClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const Dashboard: React.FC<DashboardProps> = ({ columns, types, chart, error, loading, onRequest, onClose }) => {
+  const typeOf = (column: string) => types[columns.indexOf(column)] ?? '';
+  const [groupBy, setGroupBy] = useState<string>(columns[0] ?? '');
+  const [bucket, setBucket] = useState<DateBucket | ''>(DATE_TYPE.test(typeOf(columns[0] ?? '')) ? 'month' : '');
+  const [measures, setMeasures] = useState<ChartMeasure[]>([{ fn: 'count' }]);
+  const [limit, setLimit] = useState<number>(20);
   const [chartType, setChartType] = useState<ChartType>('bar');
   const chartRef = useRef<HTMLDivElement>(null);
 
-  // Convert data to chart format
+  // Every function except a row count needs a column; incomplete measures are not sent
+  const spec = useMemo<ChartSpec | null>(() => {
+    if (!groupBy || measures.some(m => m.fn !== 'count' && !m.column)) return null;
+    return { groupBy, bucket: bucket || undefined, measures, limit };
+  }, [groupBy, bucket, measures, limit]);
+
+  const specKey = JSON.stringify(spec);
+  useEffect(() => {
+    if (spec) onRequest(spec);
+  }, [specKey]);
+
+  // Null groups get a visible label instead of an empty tick
   const chartData = useMemo(() => {
-    if (selectedColumns.length === 0) return [];
-
-    // For simplicity, use first column as X-axis, others as Y-series
-    const xColumn = selectedColumns[0];
-    const yColumns = selectedColumns.slice(1);
-
-    if (yColumns.length === 0) return [];
-
-    const xIndex = columns.indexOf(xColumn);
-    const yIndices = yColumns.map(col => columns.indexOf(col));
-
-    return data.map(row => {
-      const item: any = { [xColumn]: row[xIndex] };
-      yColumns.forEach((col, i) => {
-        const value = row[yIndices[i]];
-        item[col] = typeof value === 'number' ? value : parseFloat(value) || 0;
-      });
-      return item;
-    });
-  }, [data, columns, selectedColumns]);
-
-  const handleColumnToggle = (column: string) => {
-    setSelectedColumns(prev =>
-      prev.includes(column)
-        ? prev.filter(c => c !== column)
-        : [...prev, column]
-    );
+    if (!chart) return [];
+    return chart.rows.map(row => ({ ...row, [chart.key]: row[chart.key] ?? '(null)' }));
+  }, [chart]);
+
+  const selectGroupBy = (column: string) => {
+    setGroupBy(column);
+    setBucket(DATE_TYPE.test(typeOf(column)) ? 'month' : '');
+  };
+
+  const updateMeasure = (index: number, change: Partial<ChartMeasure>) => {
+    setMeasures(prev => prev.map((m, i) => {
+      if (i !== index) return m;
+      const next = { ...m, ...change };
+      if (next.fn !== 'count' && !next.column) {
+        next.column = columns.find(col => NUMERIC_TYPE.test(typeOf(col))) ?? columns[0];
+      }
+      return next;
+    }));
   };
 
   const handleDownload = () => {
@@ -109,13 +160,17 @@ const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
   };
 
   const renderChart = () => {
-    if (chartData.length === 0) {
+    if (error) {
+      return <div className="flex items-center justify-center h-64 text-red-400 text-sm whitespace-pre-wrap">{error}</div>;
+    }
+    if (!chart || chartData.length === 0) {
       return (
         <div className="flex items-center justify-center h-64 text-gray-400">
-          Select columns to visualize data
+          {loading ? 'Aggregating…' : spec ? 'No rows to chart' : 'Nothing to chart'}
         </div>
       );
     }
+    const { key, series } = chart;
 
     const commonProps = {
       data: chartData,
@@ -128,7 +183,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
           <ResponsiveContainer width="100%" height={400}>
             <BarChart {...commonProps}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-              <XAxis dataKey={selectedColumns[0]} stroke="#9CA3AF" />
+              <XAxis dataKey={key} stroke="#9CA3AF" />
               <YAxis stroke="#9CA3AF" tick={{ fill: '#9CA3AF' }} />
               <Tooltip
                 contentStyle={{
@@ -138,7 +193,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
                 }}
               />
               <Legend />
-              {selectedColumns.slice(1).map((col, index) => (
+              {series.map((col, index) => (
                 <Bar key={col} dataKey={col} fill={COLORS[index % COLORS.length]} />
               ))}
             </BarChart>
@@ -150,7 +205,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
           <ResponsiveContainer width="100%" height={400}>
             <LineChart {...commonProps}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-              <XAxis dataKey={selectedColumns[0]} stroke="#9CA3AF" />
+              <XAxis dataKey={key} stroke="#9CA3AF" />
               <YAxis stroke="#9CA3AF" tick={{ fill: '#9CA3AF' }} />
               <Tooltip
                 contentStyle={{
@@ -160,7 +215,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
                 }}
               />
               <Legend />
-              {selectedColumns.slice(1).map((col, index) => (
+              {series.map((col, index) => (
                 <Line
                   key={col}
                   type="monotone"
@@ -174,10 +229,10 @@ const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
         );
 
       case 'pie':
-        // For pie chart, use first Y column only
+        // For pie chart, use the first measure only
         const pieData = chartData.map(item => ({
-          name: item[selectedColumns[0]],
-          value: item[selectedColumns[1]] || 0
+          name: item[key],
+          value: item[series[0]] || 0
         }));
 
         return (
@@ -213,7 +268,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
           <ResponsiveContainer width="100%" height={400}>
             <ScatterChart {...commonProps}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-              <XAxis dataKey={selectedColumns[0]} stroke="#9CA3AF" />
+              <XAxis dataKey={key} stroke="#9CA3AF" />
               <YAxis stroke="#9CA3AF" tick={{ fill: '#9CA3AF' }} />
               <Tooltip
                 contentStyle={{
@@ -223,7 +278,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
                 }}
               />
               <Legend />
-              {selectedColumns.slice(1).map((col, index) => (
+              {series.map((col, index) => (
                 <Scatter
                   key={col}
                   name={col}
@@ -283,26 +338,80 @@ const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
 
           <div className="p-6">
             <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-              {/* Column Selection */}
-              <div className="lg:col-span-1">
-                <h3 className="text-lg font-medium text-white mb-4">Select Columns</h3>
-                <div className="space-y-2 max-h-64 overflow-y-auto">
-                  {columns.map(column => (
-                    <label key={column} className="flex items-center space-x-2 text-gray-300">
-                      <input
-                        type="checkbox"
-                        checked={selectedColumns.includes(column)}
-                        onChange={() => handleColumnToggle(column)}
-                        className="rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-500"
-                      />
-                      <span className="text-sm">{column}</span>
-                    </label>
-                  ))}
+              {/* Aggregation */}
+              <div className="lg:col-span-1 space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-300 mb-2">Group by</h3>
+                  <select value={groupBy} onChange={(e) => selectGroupBy(e.target.value)} className={selectClass}>
+                    {columns.map(column => <option key={column} value={column}>{column}</option>)}
+                  </select>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium text-gray-300 mb-2">Date bucket</h3>
+                  <select
+                    value={bucket}
+                    onChange={(e) => setBucket(e.target.value as DateBucket | '')}
+                    disabled={!BUCKETABLE_TYPE.test(typeOf(groupBy))}
+                    className={`${selectClass} disabled:opacity-50`}
+                  >
+                    <option value="">None</option>
+                    <option value="day">Day</option>
+                    <option value="week">Week</option>
+                    <option value="month">Month</option>
+                  </select>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium text-gray-300 mb-2">Measures</h3>
+                  <div className="space-y-2">
+                    {measures.map((measure, index) => (
+                      <div key={index} className="flex gap-2">
+                        <select
+                          value={measure.fn}
+                          onChange={(e) => updateMeasure(index, { fn: e.target.value as AggregateFunction })}
+                          className={selectClass}
+                        >
+                          {FUNCTIONS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                        </select>
+                        <select
+                          value={measure.column ?? ''}
+                          onChange={(e) => updateMeasure(index, { column: e.target.value || undefined })}
+                          className={selectClass}
+                        >
+                          {measure.fn === 'count' && <option value="">All rows</option>}
+                          {columns.map(column => <option key={column} value={column}>{column}</option>)}
+                        </select>
+                        {measures.length > 1 && (
+                          <button
+                            onClick={() => setMeasures(prev => prev.filter((_, i) => i !== index))}
+                            className="px-2 text-gray-400 hover:text-white"
+                            title="Remove measure"
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setMeasures(prev => [...prev, { fn: 'count' }])}
+                    className="mt-2 text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    + Add measure
+                  </button>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium text-gray-300 mb-2">Show</h3>
+                  <select value={limit} onChange={(e) => setLimit(Number(e.target.value))} className={selectClass}>
+                    {TOP_N.map(n => <option key={n} value={n}>{n ? `Top ${n} groups` : 'All groups'}</option>)}
+                  </select>
                 </div>
 
                 {/* Chart Type Selection */}
-                <div className="mt-6">
-                  <h3 className="text-lg font-medium text-white mb-4">Chart Type</h3>
+                <div>
+                  <h3 className="text-sm font-medium text-gray-300 mb-2">Chart Type</h3>
                   <select
                     value={chartType}
                     onChange={(e) => setChartType(e.target.value as ChartType)}
@@ -321,6 +430,14 @@ const Dashboard: React.FC<DashboardProps> = ({ data, columns, onClose }) => {
                 <div ref={chartRef} className="bg-gray-800 rounded-lg p-4">
                   {renderChart()}
                 </div>
+                {chart && !error && (
+                  <div className="mt-2 text-xs text-gray-400">
+                    {chart.rows.length < chart.groups
+                      ? `Showing ${chart.rows.length.toLocaleString()} of ${chart.groups.toLocaleString()} groups`
+                      : `${chart.groups.toLocaleString()} group${chart.groups === 1 ? '' : 's'}`}
+                    {' '}over every row matching the current query{loading ? ' · updating…' : ''}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+
+export type ExportFormat = 'csv' | 'parquet' | 'xlsx' | 'json' | 'ndjson' | 'markdown' | 'sql';
+
+export type ExportOptions = {
+	format: ExportFormat;
+	compression?: 'snappy' | 'zstd' | 'gzip' | 'uncompressed';
+	sheetName?: string;
+	pretty?: boolean;
+	tableName?: string;
+};
+
+type ExportPanelProps = {
+	onExport: (options: ExportOptions) => void;
+	onClose: () => void;
+};
+
+const FORMATS: Array<{ value: ExportFormat; label: string; hint: string }> = [
+	{ value: 'csv', label: 'CSV', hint: 'Comma-separated text with a header row' },
+	{ value: 'parquet', label: 'Parquet', hint: 'Columnar file that keeps column types' },
+	{ value: 'xlsx', label: 'Excel', hint: 'Single-sheet XLSX workbook' },
+	{ value: 'json', label: 'JSON', hint: 'Array of row objects' },
+	{ value: 'ndjson', label: 'JSON Lines', hint: 'One row object per line' },
+	{ value: 'markdown', label: 'Markdown', hint: 'Pipe table for docs and READMEs' },
+	{ value: 'sql', label: 'SQL INSERT', hint: 'One INSERT statement per row' }
+];
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ onExport, onClose }) => {
+	const [format, setFormat] = useState<ExportFormat>('csv');
+	const [compression, setCompression] = useState<ExportOptions['compression']>('snappy');
+	const [sheetName, setSheetName] = useState<string>('Sheet1');
+	const [pretty, setPretty] = useState<boolean>(true);
+	const [tableName, setTableName] = useState<string>('data');
+
+	const submit = () => {
+		const options: ExportOptions = { format };
+		if (format === 'parquet') options.compression = compression;
+		if (format === 'xlsx') options.sheetName = sheetName;
+		if (format === 'json') options.pretty = pretty;
+		if (format === 'sql') options.tableName = tableName;
+		onExport(options);
+	};
+
+	return (
+		<div className="grid gap-4">
+			<p className="text-sm text-gray-400">Exports every row of the current query, search and filters, not just the visible page.</p>
+			<div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+				{FORMATS.map(f => (
+					<button
+						key={f.value}
+						onClick={() => setFormat(f.value)}
+						title={f.hint}
+						className={`px-3 py-2 text-sm rounded-md border transition-colors ${
+							format === f.value ? 'border-blue-500 bg-blue-900/50 text-white' : 'border-gray-700 text-gray-300 hover:bg-gray-800'
+						}`}
+					>
+						{f.label}
+					</button>
+				))}
+			</div>
+			<div className="text-xs text-gray-500">{FORMATS.find(f => f.value === format)?.hint}</div>
+
+			{format === 'parquet' && (
+				<div>
+					<label className="block text-sm font-medium text-gray-300 mb-2">Compression</label>
+					<select value={compression} onChange={(e) => setCompression(e.target.value as ExportOptions['compression'])} className={inputClass}>
+						<option value="snappy">Snappy</option>
+						<option value="zstd">Zstandard</option>
+						<option value="gzip">Gzip</option>
+						<option value="uncompressed">None</option>
+					</select>
+				</div>
+			)}
+			{format === 'xlsx' && (
+				<div>
+					<label className="block text-sm font-medium text-gray-300 mb-2">Sheet name</label>
+					<input value={sheetName} onChange={(e) => setSheetName(e.target.value)} maxLength={31} className={inputClass} />
+				</div>
+			)}
+			{format === 'json' && (
+				<label className="flex items-center gap-2 text-sm text-gray-300">
+					<input type="checkbox" checked={pretty} onChange={(e) => setPretty(e.target.checked)} />
+					Pretty-print (indented)
+				</label>
+			)}
+			{format === 'sql' && (
+				<div>
+					<label className="block text-sm font-medium text-gray-300 mb-2">Target table</label>
+					<input value={tableName} onChange={(e) => setTableName(e.target.value)} placeholder="schema.table" className={inputClass} />
+				</div>
+			)}
+
+			<div className="flex justify-end gap-3">
+				<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} onClick={onClose} className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-all duration-200">
+					Cancel
+				</motion.button>
+				<motion.button
+					whileTap={{ scale: 0.95 }}
+					whileHover={{ scale: 1.02 }}
+					disabled={(format === 'sql' && !tableName.trim()) || (format === 'xlsx' && !sheetName.trim())}
+					onClick={submit}
+					className="px-4 py-2 bg-gradient-to-r from-emerald-500 to-teal-600 text-white rounded-md font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:from-emerald-600 hover:to-teal-700 transition-all duration-200"
+				>
+					Export…
+				</motion.button>
+			</div>
+		</div>
+	);
+};
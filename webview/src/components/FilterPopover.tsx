@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+
+export type FilterOperator = 'equals' | 'contains' | 'regex' | 'between' | 'isNull' | 'notNull' | 'in';
+
+export type ColumnFilter = {
+	column: string;
+	op: FilterOperator;
+	value?: string;
+	value2?: string;
+	values?: string[];
+	caseSensitive?: boolean;
+};
+
+type FilterPopoverProps = {
+	column: string;
+	filter?: ColumnFilter;
+	onApply: (filter: ColumnFilter) => void;
+	onClear: () => void;
+	onClose: () => void;
+};
+
+const OPERATORS: Array<{ value: FilterOperator; label: string }> = [
+	{ value: 'contains', label: 'Contains' },
+	{ value: 'equals', label: 'Equals' },
+	{ value: 'regex', label: 'Matches regex' },
+	{ value: 'between', label: 'Between' },
+	{ value: 'in', label: 'Is one of' },
+	{ value: 'isNull', label: 'Is empty (null)' },
+	{ value: 'notNull', label: 'Is not empty' }
+];
+
+// Operators that compare text, so case sensitivity applies
+const TEXT_OPERATORS: FilterOperator[] = ['contains', 'equals', 'regex', 'in'];
+
+const inputClass = 'w-full px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/** Operator, operands and case sensitivity for the filter on one column. */
+export const FilterPopover: React.FC<FilterPopoverProps> = ({ column, filter, onApply, onClear, onClose }) => {
+	const [op, setOp] = useState<FilterOperator>(filter?.op ?? 'contains');
+	const [value, setValue] = useState<string>(filter?.value ?? '');
+	const [value2, setValue2] = useState<string>(filter?.value2 ?? '');
+	const [values, setValues] = useState<string>((filter?.values ?? []).join('\n'));
+	const [caseSensitive, setCaseSensitive] = useState<boolean>(!!filter?.caseSensitive);
+
+	const apply = () => {
+		const next: ColumnFilter = { column, op };
+		if (op === 'between') {
+			next.value = value;
+			next.value2 = value2;
+		} else if (op === 'in') {
+			next.values = values.split(/\r?\n/).map(v => v.trim()).filter(v => v !== '');
+		} else if (op !== 'isNull' && op !== 'notNull') {
+			next.value = value;
+		}
+		if (caseSensitive && TEXT_OPERATORS.includes(op)) next.caseSensitive = true;
+		onApply(next);
+	};
+
+	const onKeyDown = (e: React.KeyboardEvent) => {
+		if (e.key === 'Enter' && !(e.target instanceof HTMLTextAreaElement)) { e.preventDefault(); apply(); }
+		else if (e.key === 'Escape') { e.preventDefault(); onClose(); }
+	};
+
+	return (
+		<div
+			className="absolute left-0 top-full z-30 mt-1 w-64 grid gap-2 p-3 rounded-md border border-gray-600 bg-gray-900 shadow-xl text-left font-normal normal-case"
+			onClick={(e) => e.stopPropagation()}
+			onKeyDown={onKeyDown}
+		>
+			<div className="text-xs text-gray-400 truncate">Filter <span className="font-mono text-gray-200">{column}</span></div>
+			<select value={op} onChange={(e) => setOp(e.target.value as FilterOperator)} className={inputClass}>
+				{OPERATORS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+			</select>
+			{(op === 'contains' || op === 'equals' || op === 'regex') && (
+				<input autoFocus value={value} onChange={(e) => setValue(e.target.value)} placeholder={op === 'regex' ? '^A.*z$' : 'Value'} className={`${inputClass} font-mono`} />
+			)}
+			{op === 'between' && (
+				<div className="flex items-center gap-2">
+					<input autoFocus value={value} onChange={(e) => setValue(e.target.value)} placeholder="From" className={`${inputClass} font-mono`} />
+					<input value={value2} onChange={(e) => setValue2(e.target.value)} placeholder="To" className={`${inputClass} font-mono`} />
+				</div>
+			)}
+			{op === 'in' && (
+				<textarea autoFocus value={values} onChange={(e) => setValues(e.target.value)} rows={4} placeholder="One value per line" className={`${inputClass} font-mono resize-y`} />
+			)}
+			{TEXT_OPERATORS.includes(op) && (
+				<label className="flex items-center gap-2 text-xs text-gray-300">
+					<input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />
+					Case sensitive
+				</label>
+			)}
+			<div className="flex justify-end gap-2">
+				{filter && (
+					<button onClick={onClear} className="px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Clear</button>
+				)}
+				<button onClick={onClose} className="px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Cancel</button>
+				<button onClick={apply} className="px-2 py-1 text-xs rounded bg-blue-600 hover:bg-blue-500 text-white">Apply</button>
+			</div>
+		</div>
+	);
+};
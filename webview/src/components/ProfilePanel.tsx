@@ -0,0 +1,115 @@
+import React from 'react';
+
+export type ColumnProfile = {
+	name: string;
+	type: string;
+	count: number;
+	nulls: number;
+	distinct: number;
+	min: string | null;
+	max: string | null;
+	mean?: number | null;
+	stddev?: number | null;
+	quantiles?: { q25: number | null; q50: number | null; q75: number | null };
+	histogram?: Array<{ lower: number; upper: number; count: number }>;
+	top: Array<{ value: string; count: number }>;
+};
+
+type ProfilePanelProps = {
+	profiles: ColumnProfile[];
+	// Called with a SQL condition to add to the current query
+	onFilter: (condition: string) => void;
+};
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const formatNumber = (value: number | null | undefined): string => {
+	if (value === null || value === undefined || Number.isNaN(value)) return '—';
+	return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+};
+
+const StatRow: React.FC<{ label: string; value: string; onClick?: () => void }> = ({ label, value, onClick }) => (
+	<div className="flex justify-between gap-3">
+		<span className="text-gray-500">{label}</span>
+		{onClick ? (
+			<button onClick={onClick} className="truncate font-mono text-blue-300 hover:text-blue-200 hover:underline" title={`Filter on ${value}`}>{value}</button>
+		) : (
+			<span className="truncate font-mono text-gray-200" title={value}>{value}</span>
+		)}
+	</div>
+);
+
+const ColumnCard: React.FC<{ profile: ColumnProfile; onFilter: (condition: string) => void }> = ({ profile, onFilter }) => {
+	const col = quoteIdent(profile.name);
+	const equals = (value: string) => () => onFilter(`${col} = ${quoteLiteral(value)}`);
+	const maxTop = Math.max(1, ...profile.top.map(t => t.count));
+	const maxBin = Math.max(1, ...(profile.histogram ?? []).map(b => b.count));
+	const bins = profile.histogram ?? [];
+
+	return (
+		<div className="grid gap-3 p-4 rounded-lg border border-gray-700 bg-black">
+			<div className="flex items-center justify-between gap-2">
+				<span className="font-mono text-white truncate" title={profile.name}>{profile.name}</span>
+				<span className="px-1.5 rounded bg-gray-800 text-xs text-gray-300 whitespace-nowrap">{profile.type}</span>
+			</div>
+
+			<div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs">
+				<StatRow label="Rows" value={formatNumber(profile.count)} />
+				<StatRow label="Nulls" value={formatNumber(profile.nulls)} onClick={profile.nulls > 0 ? () => onFilter(`${col} IS NULL`) : undefined} />
+				<StatRow label="Distinct" value={formatNumber(profile.distinct)} />
+				<StatRow label="Min" value={profile.min ?? '—'} onClick={profile.min !== null ? equals(profile.min) : undefined} />
+				<StatRow label="Max" value={profile.max ?? '—'} onClick={profile.max !== null ? equals(profile.max) : undefined} />
+				{profile.mean !== undefined && <StatRow label="Mean" value={formatNumber(profile.mean)} />}
+				{profile.stddev !== undefined && <StatRow label="Std dev" value={formatNumber(profile.stddev)} />}
+				{profile.quantiles && (
+					<>
+						<StatRow label="25%" value={formatNumber(profile.quantiles.q25)} />
+						<StatRow label="Median" value={formatNumber(profile.quantiles.q50)} />
+						<StatRow label="75%" value={formatNumber(profile.quantiles.q75)} />
+					</>
+				)}
+			</div>
+
+			{bins.length > 0 && (
+				<div>
+					<div className="mb-1 text-xs text-gray-500">Distribution</div>
+					<div className="flex items-end gap-px h-16">
+						{bins.map((bin, i) => (
+							<button
+								key={i}
+								onClick={() => onFilter(i === bins.length - 1
+									? `${col} BETWEEN ${bin.lower} AND ${bin.upper}`
+									: `${col} >= ${bin.lower} AND ${col} < ${bin.upper}`)}
+								className="flex-1 bg-blue-600 hover:bg-blue-400 transition-colors rounded-t-sm"
+								style={{ height: `${Math.max(2, (bin.count / maxBin) * 100)}%` }}
+								title={`${formatNumber(bin.lower)} – ${formatNumber(bin.upper)}: ${bin.count}`}
+							/>
+						))}
+					</div>
+				</div>
+			)}
+
+			{profile.top.length > 0 && (
+				<div>
+					<div className="mb-1 text-xs text-gray-500">Most frequent</div>
+					<div className="grid gap-0.5">
+						{profile.top.map(item => (
+							<button key={item.value} onClick={equals(item.value)} className="relative flex justify-between gap-2 px-1.5 py-0.5 text-xs text-left rounded hover:bg-gray-800" title={`Filter on ${item.value}`}>
+								<span className="absolute inset-y-0 left-0 rounded bg-blue-900/50" style={{ width: `${(item.count / maxTop) * 100}%` }} />
+								<span className="relative truncate font-mono text-gray-200">{item.value}</span>
+								<span className="relative text-gray-400">{formatNumber(item.count)}</span>
+							</button>
+						))}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export const ProfilePanel: React.FC<ProfilePanelProps> = ({ profiles, onFilter }) => (
+	<div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+		{profiles.map(profile => <ColumnCard key={profile.name} profile={profile} onFilter={onFilter} />)}
+	</div>
+);
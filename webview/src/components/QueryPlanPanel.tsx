@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+
+export type PlanNode = {
+	name: string;
+	details: string[];
+	estimatedRows?: number;
+	actualRows?: number;
+	seconds?: number;
+	children: PlanNode[];
+};
+
+export type QueryPlan = {
+	analyzed: boolean;
+	totalSeconds?: number;
+	roots: PlanNode[];
+	text: string;
+};
+
+type QueryPlanPanelProps = {
+	plan: QueryPlan;
+};
+
+const formatCount = (value: number | undefined) => value === undefined ? '—' : value.toLocaleString();
+
+// Estimates off by more than this factor are flagged, as they often explain a slow join order
+const MISESTIMATE_FACTOR = 10;
+
+const isMisestimated = (node: PlanNode) =>
+	node.estimatedRows !== undefined && node.actualRows !== undefined &&
+	Math.max(node.estimatedRows, node.actualRows) > MISESTIMATE_FACTOR * Math.max(1, Math.min(node.estimatedRows, node.actualRows));
+
+const PlanNodeRow: React.FC<{ node: PlanNode; depth: number; totalSeconds?: number }> = ({ node, depth, totalSeconds }) => {
+	const [open, setOpen] = useState<boolean>(true);
+	const [showDetails, setShowDetails] = useState<boolean>(false);
+	const share = totalSeconds && node.seconds !== undefined ? Math.min(1, node.seconds / totalSeconds) : undefined;
+
+	return (
+		<div>
+			<div className="flex items-center gap-2 py-1 pr-2 rounded hover:bg-gray-800" style={{ paddingLeft: depth * 20 }}>
+				<button
+					onClick={() => setOpen(!open)}
+					className={`w-4 text-gray-400 hover:text-white ${node.children.length === 0 ? 'invisible' : ''}`}
+					title={open ? 'Collapse' : 'Expand'}
+				>
+					{open ? '▾' : '▸'}
+				</button>
+				<button onClick={() => setShowDetails(!showDetails)} className="font-mono text-sm text-white hover:underline" title="Show operator details">
+					{node.name}
+				</button>
+				<div className="ml-auto flex items-center gap-3 text-xs font-mono">
+					<span className="text-gray-400" title="Estimated rows">est {formatCount(node.estimatedRows)}</span>
+					{node.actualRows !== undefined && (
+						<span className={isMisestimated(node) ? 'text-amber-300' : 'text-emerald-300'} title="Actual rows">rows {formatCount(node.actualRows)}</span>
+					)}
+					{node.seconds !== undefined && (
+						<span className="flex items-center gap-1 text-gray-300" title="Time spent in this operator">
+							{share !== undefined && (
+								<span className="inline-block w-16 h-1.5 rounded bg-gray-700 overflow-hidden">
+									<span className="block h-full bg-orange-500" style={{ width: `${share * 100}%` }} />
+								</span>
+							)}
+							{node.seconds.toFixed(3)} s
+						</span>
+					)}
+				</div>
+			</div>
+			{showDetails && node.details.length > 0 && (
+				<div className="mb-1 text-xs font-mono text-gray-400 whitespace-pre-wrap" style={{ paddingLeft: depth * 20 + 40 }}>
+					{node.details.join('\n')}
+				</div>
+			)}
+			{open && node.children.map((child, i) => <PlanNodeRow key={i} node={child} depth={depth + 1} totalSeconds={totalSeconds} />)}
+		</div>
+	);
+};
+
+/** Operator tree of an EXPLAIN, with row estimates and, after EXPLAIN ANALYZE, actual rows and timings. */
+export const QueryPlanPanel: React.FC<QueryPlanPanelProps> = ({ plan }) => {
+	const [showText, setShowText] = useState<boolean>(plan.roots.length === 0);
+
+	return (
+		<div className="grid gap-3">
+			{plan.analyzed && plan.totalSeconds !== undefined && (
+				<div className="text-sm text-gray-300">Total time: <span className="font-mono">{plan.totalSeconds.toFixed(4)} s</span></div>
+			)}
+			{plan.roots.length > 0 && (
+				<div className="rounded-md border border-gray-700 bg-gray-950 p-2">
+					{plan.roots.map((root, i) => <PlanNodeRow key={i} node={root} depth={0} totalSeconds={plan.totalSeconds} />)}
+				</div>
+			)}
+			<div>
+				<button onClick={() => setShowText(!showText)} className="text-xs text-gray-400 hover:text-white">
+					{showText ? '▾' : '▸'} Plan as printed by DuckDB
+				</button>
+				{showText && <pre className="mt-2 p-3 overflow-x-auto rounded-md border border-gray-700 bg-gray-950 text-xs text-gray-300">{plan.text}</pre>}
+			</div>
+		</div>
+	);
+};
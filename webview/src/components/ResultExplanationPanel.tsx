@@ -0,0 +1,35 @@
+import React from 'react';
+
+export type ResultExplanation = {
+	summary: string;
+	followUps: Array<{ title: string; sql: string; error?: string }>;
+};
+
+type ResultExplanationPanelProps = {
+	explanation: ResultExplanation;
+	onInsert: (sql: string) => void;
+	onRun: (sql: string) => void;
+};
+
+/** The model's reading of the current result and the follow-up queries it suggests. */
+export const ResultExplanationPanel: React.FC<ResultExplanationPanelProps> = ({ explanation, onInsert, onRun }) => (
+	<div className="grid gap-4">
+		<p className="text-sm text-gray-100 leading-relaxed whitespace-pre-wrap">{explanation.summary || 'The model gave no summary.'}</p>
+		{explanation.followUps.length > 0 && (
+			<div className="grid gap-3">
+				<div className="text-xs uppercase tracking-wide text-gray-400">Follow-up queries</div>
+				{explanation.followUps.map((followUp, i) => (
+					<div key={i} className="p-3 rounded-md border border-gray-700 bg-gray-800">
+						<div className="text-sm font-medium text-white">{followUp.title}</div>
+						<pre className="mt-2 text-xs text-gray-100 overflow-x-auto bg-gray-900 p-2 rounded-md font-mono">{followUp.sql}</pre>
+						{followUp.error && <div className="mt-1 text-xs text-amber-300 whitespace-pre-wrap">DuckDB rejects this query: {followUp.error}</div>}
+						<div className="mt-2 flex gap-2">
+							<button onClick={() => onInsert(followUp.sql)} className="px-3 py-1 text-xs rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">Insert</button>
+							<button onClick={() => onRun(followUp.sql)} disabled={!!followUp.error} className="px-3 py-1 text-xs rounded-md bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50 disabled:cursor-not-allowed">Insert &amp; Run</button>
+						</div>
+					</div>
+				))}
+			</div>
+		)}
+	</div>
+);
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+
+export type SavedQuery = {
+	id: string;
+	name: string;
+	description: string;
+	sql: string;
+	scope: 'file' | 'workspace';
+	updated: number;
+};
+
+type SavedQueriesPanelProps = {
+	queries: SavedQuery[];
+	// SQL in the editor, offered for saving
+	currentSql: string;
+	onSave: (query: { name: string; description: string; sql: string; scope: SavedQuery['scope'] }) => void;
+	onRun: (query: SavedQuery) => void;
+	onUpdate: (id: string, changes: Partial<Pick<SavedQuery, 'name' | 'description' | 'scope'>>) => void;
+	onDuplicate: (id: string) => void;
+	onDelete: (id: string) => void;
+	onExport: () => void;
+	onImport: () => void;
+	onClose: () => void;
+};
+
+const inputClass = 'w-full px-2 py-1.5 bg-gray-800 border border-gray-600 rounded-md text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+const smallButton = 'px-2 py-0.5 text-xs rounded bg-gray-700 hover:bg-gray-600 text-gray-200';
+
+const SCOPE_LABELS: Record<SavedQuery['scope'], string> = {
+	file: 'This file',
+	workspace: 'Workspace'
+};
+
+const QueryItem: React.FC<{ query: SavedQuery } & Pick<SavedQueriesPanelProps, 'onRun' | 'onUpdate' | 'onDuplicate' | 'onDelete'>> = ({ query, onRun, onUpdate, onDuplicate, onDelete }) => {
+	const [editing, setEditing] = useState<boolean>(false);
+	const [name, setName] = useState<string>(query.name);
+	const [description, setDescription] = useState<string>(query.description);
+
+	const commit = () => {
+		setEditing(false);
+		if (name.trim() && (name !== query.name || description !== query.description)) {
+			onUpdate(query.id, { name, description });
+		} else {
+			setName(query.name);
+			setDescription(query.description);
+		}
+	};
+
+	if (editing) {
+		return (
+			<div className="grid gap-2 p-2 rounded-md border border-blue-600 bg-gray-900" onKeyDown={(e) => { if (e.key === 'Escape') { setEditing(false); setName(query.name); setDescription(query.description); } }}>
+				<input autoFocus value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') commit(); }} className={inputClass} />
+				<textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} placeholder="Description" className={`${inputClass} resize-y`} />
+				<div className="flex justify-end gap-2">
+					<button onClick={() => { setEditing(false); setName(query.name); setDescription(query.description); }} className={smallButton}>Cancel</button>
+					<button onClick={commit} className="px-2 py-0.5 text-xs rounded bg-blue-600 hover:bg-blue-500 text-white">Save</button>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="group grid gap-1 p-2 rounded-md border border-gray-700 bg-gray-900 hover:border-gray-500">
+			<button onClick={() => onRun(query)} className="text-left" title={query.sql}>
+				<div className="text-sm font-medium text-white truncate">{query.name}</div>
+				{query.description && <div className="text-xs text-gray-400">{query.description}</div>}
+				<div className="mt-1 text-xs font-mono text-gray-500 truncate">{query.sql.replace(/\s+/g, ' ')}</div>
+			</button>
+			<div className="flex flex-wrap gap-1">
+				<button onClick={() => onRun(query)} className="px-2 py-0.5 text-xs rounded bg-blue-600 hover:bg-blue-500 text-white">Run</button>
+				<button onClick={() => setEditing(true)} className={smallButton}>Rename</button>
+				<button onClick={() => onDuplicate(query.id)} className={smallButton}>Duplicate</button>
+				<button onClick={() => onUpdate(query.id, { scope: query.scope === 'file' ? 'workspace' : 'file' })} className={smallButton} title="Move to the other scope">
+					{query.scope === 'file' ? 'Share with workspace' : 'Keep for this file'}
+				</button>
+				<button onClick={() => onDelete(query.id)} className="px-2 py-0.5 text-xs rounded bg-gray-700 hover:bg-red-700 text-gray-200">Delete</button>
+			</div>
+		</div>
+	);
+};
+
+/** Sidebar listing the saved queries of this file and the workspace, with a form to save the current SQL. */
+export const SavedQueriesPanel: React.FC<SavedQueriesPanelProps> = ({ queries, currentSql, onSave, onRun, onUpdate, onDuplicate, onDelete, onExport, onImport, onClose }) => {
+	const [name, setName] = useState<string>('');
+	const [description, setDescription] = useState<string>('');
+	const [scope, setScope] = useState<SavedQuery['scope']>('file');
+
+	const save = () => {
+		onSave({ name, description, sql: currentSql, scope });
+		setName('');
+		setDescription('');
+	};
+
+	return (
+		<div className="flex flex-col h-full">
+			<div className="flex items-center justify-between p-4 border-b border-gray-700">
+				<h2 className="text-lg font-semibold text-white">Saved Queries</h2>
+				<motion.button whileTap={{ scale: 0.95 }} className="text-gray-400 hover:text-white" onClick={onClose}>
+					<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+						<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+					</svg>
+				</motion.button>
+			</div>
+
+			<div className="grid gap-2 p-4 border-b border-gray-700">
+				<input value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && name.trim()) save(); }} placeholder="Name for the current query" className={inputClass} />
+				<textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} placeholder="Description (optional)" className={`${inputClass} resize-y`} />
+				<div className="flex items-center gap-2">
+					<select value={scope} onChange={(e) => setScope(e.target.value as SavedQuery['scope'])} className={`${inputClass} flex-1`}>
+						<option value="file">{SCOPE_LABELS.file}</option>
+						<option value="workspace">{SCOPE_LABELS.workspace}</option>
+					</select>
+					<motion.button
+						whileTap={{ scale: 0.95 }}
+						disabled={!name.trim() || !currentSql.trim()}
+						onClick={save}
+						className="px-3 py-1.5 text-sm rounded-md bg-gradient-to-r from-cyan-500 to-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+					>
+						Save
+					</motion.button>
+				</div>
+			</div>
+
+			<div className="flex-1 min-h-0 overflow-y-auto p-4 grid content-start gap-4">
+				{queries.length === 0 && <div className="text-sm text-gray-500">No saved queries yet.</div>}
+				{(['file', 'workspace'] as const).map(s => {
+					const items = queries.filter(q => q.scope === s);
+					if (items.length === 0) return null;
+					return (
+						<div key={s} className="grid gap-2">
+							<div className="text-xs uppercase tracking-wide text-gray-400">{SCOPE_LABELS[s]}</div>
+							{items.map(q => (
+								<QueryItem key={`${q.id}:${q.updated}`} query={q} onRun={onRun} onUpdate={onUpdate} onDuplicate={onDuplicate} onDelete={onDelete} />
+							))}
+						</div>
+					);
+				})}
+			</div>
+
+			<div className="flex gap-2 p-4 border-t border-gray-700">
+				<button onClick={onImport} className="flex-1 px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">Import…</button>
+				<button onClick={onExport} disabled={queries.length === 0} className="flex-1 px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200">Export…</button>
+			</div>
+		</div>
+	);
+};
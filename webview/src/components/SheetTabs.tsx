@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+
+export type SheetInfo = {
+	name: string;
+	table: string;
+	headerRow: number;
+	range: string;
+	rowCount: number;
+};
+
+type SheetTabsProps = {
+	sheets: SheetInfo[];
+	active?: string;
+	onSelect: (name: string) => void;
+	onApplyOptions: (name: string, headerRow: number, range: string) => void;
+};
+
+const quoteTable = (name: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+
+export const SheetTabs: React.FC<SheetTabsProps> = ({ sheets, active, onSelect, onApplyOptions }) => {
+	const current = sheets.find(s => s.name === active) ?? sheets[0];
+	const [showOptions, setShowOptions] = useState<boolean>(false);
+	const [headerRow, setHeaderRow] = useState<number>(current?.headerRow ?? 1);
+	const [range, setRange] = useState<string>(current?.range ?? '');
+
+	useEffect(() => {
+		setHeaderRow(current?.headerRow ?? 1);
+		setRange(current?.range ?? '');
+	}, [current?.name, current?.headerRow, current?.range]);
+
+	if (!current) return null;
+
+	return (
+		<div className="grid gap-2">
+			<div className="flex items-center gap-1 overflow-x-auto border-b border-gray-700">
+				{sheets.map(sheet => (
+					<button
+						key={sheet.name}
+						onClick={() => sheet.name !== current.name && onSelect(sheet.name)}
+						title={`${sheet.rowCount} rows · query as ${quoteTable(sheet.table)}`}
+						className={`px-3 py-1.5 text-sm rounded-t-md whitespace-nowrap transition-colors ${
+							sheet.name === current.name
+								? 'bg-gray-800 text-white border border-b-0 border-gray-600'
+								: 'text-gray-400 hover:text-white hover:bg-gray-900'
+						}`}
+					>
+						{sheet.name}
+					</button>
+				))}
+				<button
+					onClick={() => setShowOptions(!showOptions)}
+					className="ml-auto px-3 py-1.5 text-sm text-gray-400 hover:text-white whitespace-nowrap"
+				>
+					Sheet options
+				</button>
+			</div>
+			{showOptions && (
+				<div className="flex flex-wrap items-end gap-3 p-3 rounded-md border border-gray-700 bg-gray-900">
+					<div>
+						<label className="block text-xs text-gray-400 mb-1">Header row</label>
+						<input
+							type="number"
+							min={1}
+							value={headerRow}
+							onChange={(e) => setHeaderRow(Math.max(1, parseInt(e.target.value, 10) || 1))}
+							className="w-24 px-2 py-1 bg-gray-800 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+						/>
+					</div>
+					<div>
+						<label className="block text-xs text-gray-400 mb-1">Cell range</label>
+						<input
+							value={range}
+							onChange={(e) => setRange(e.target.value)}
+							placeholder="e.g. A3:H200"
+							className="w-40 px-2 py-1 bg-gray-800 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+						/>
+					</div>
+					<motion.button
+						whileTap={{ scale: 0.95 }}
+						whileHover={{ scale: 1.02 }}
+						onClick={() => { onApplyOptions(current.name, headerRow, range.trim()); setShowOptions(false); }}
+						className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-all duration-200"
+					>
+						Apply
+					</motion.button>
+				</div>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef } from 'react';
+import { TableSchema } from './TablesPanel';
+
+export type SqlFunction = {
+	name: string;
+	kind: string;
+	signatures: string[];
+	description?: string;
+};
+
+export type Suggestion = {
+	label: string;
+	// Text that replaces the word being typed
+	insert: string;
+	kind: 'table' | 'column' | 'function' | 'keyword' | 'snippet';
+	detail?: string;
+};
+
+export type CompletionState = {
+	// Range of the editor text the chosen suggestion replaces
+	from: number;
+	to: number;
+	items: Suggestion[];
+};
+
+export const SQL_KEYWORDS = [
+	'select', 'from', 'where', 'and', 'or', 'not', 'group', 'by', 'order', 'limit', 'offset', 'asc', 'desc', 'as', 'join', 'left', 'right',
+	'inner', 'outer', 'full', 'cross', 'on', 'using', 'like', 'ilike', 'in', 'between', 'is', 'null', 'true', 'false', 'distinct', 'having',
+	'union', 'all', 'except', 'intersect', 'with', 'recursive', 'case', 'when', 'then', 'else', 'end', 'cast', 'try_cast', 'exists', 'any',
+	'create', 'replace', 'temp', 'temporary', 'view', 'table', 'drop', 'if', 'insert', 'into', 'values', 'update', 'set', 'delete',
+	'alter', 'add', 'column', 'rename', 'to', 'describe', 'summarize', 'show', 'pivot', 'unpivot', 'qualify', 'window', 'over', 'partition',
+	'rows', 'range', 'preceding', 'following', 'unbounded', 'current', 'row', 'filter', 'nulls', 'first', 'last', 'exclude', 'columns', 'explain', 'analyze'
+];
+
+const KEYWORD_SET = new Set(SQL_KEYWORDS);
+
+const SNIPPETS: Array<{ label: string; insert: string; detail: string }> = [
+	{ label: 'select-all', insert: 'SELECT *\nFROM data\nLIMIT 100', detail: 'First rows of data' },
+	{ label: 'group-count', insert: 'SELECT column_name, count(*) AS n\nFROM data\nGROUP BY column_name\nORDER BY n DESC', detail: 'Count rows per value' },
+	{ label: 'with-cte', insert: 'WITH filtered AS (\n\tSELECT *\n\tFROM data\n\tWHERE condition\n)\nSELECT *\nFROM filtered', detail: 'Common table expression' },
+	{ label: 'join', insert: 'SELECT *\nFROM data AS a\nJOIN other AS b ON a.id = b.id', detail: 'Join two tables' },
+	{ label: 'create-view', insert: 'CREATE OR REPLACE TEMP VIEW name AS\nSELECT *\nFROM data', detail: 'View kept for later queries' },
+	{ label: 'case-when', insert: 'CASE WHEN condition THEN value ELSE other END', detail: 'Conditional value' },
+	{ label: 'window-rank', insert: 'row_number() OVER (PARTITION BY column_name ORDER BY column_name)', detail: 'Rank rows within groups' }
+];
+
+// Keywords after which a table name is expected
+const TABLE_CONTEXT = /\b(from|join|into|table|update|describe|summarize)\s+$/i;
+const MAX_SUGGESTIONS = 50;
+
+/** An identifier as it must be typed: plain when possible, double-quoted otherwise. */
+export const quoteName = (name: string): string =>
+	/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !KEYWORD_SET.has(name.toLowerCase()) ? name : `"${name.replace(/"/g, '""')}"`;
+
+/** Table aliases declared in the query, e.g. `FROM orders o` or `JOIN items AS i`. */
+const tableAliases = (text: string, tables: TableSchema[]): Map<string, TableSchema> => {
+	const aliases = new Map<string, TableSchema>();
+	const pattern = /\b(?:from|join)\s+("(?:[^"]|"")+"|[A-Za-z_][A-Za-z0-9_]*)(?:\s+(?:as\s+)?([A-Za-z_][A-Za-z0-9_]*))?/gi;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		const name = match[1].startsWith('"') ? match[1].slice(1, -1).replace(/""/g, '"') : match[1];
+		const table = tables.find(t => t.name.toLowerCase() === name.toLowerCase());
+		if (!table) continue;
+		aliases.set(table.name.toLowerCase(), table);
+		if (match[2] && !KEYWORD_SET.has(match[2].toLowerCase())) aliases.set(match[2].toLowerCase(), table);
+	}
+	return aliases;
+};
+
+/**
+ * Suggestions for the word ending at `caret`. Returns null when there is nothing
+ * to complete, unless `explicit` (Ctrl+Space) asks for everything that fits.
+ */
+export const completionsAt = (text: string, caret: number, tables: TableSchema[], functions: SqlFunction[], explicit = false): CompletionState | null => {
+	const before = text.slice(0, caret);
+	// Inside a string literal or comment there is nothing to complete
+	if ((before.match(/'/g)?.length ?? 0) % 2 === 1 || /--[^\n]*$/.test(before)) return null;
+
+	const qualified = /(?:("(?:[^"]|"")+"|[A-Za-z_][A-Za-z0-9_]*)\.)("?[A-Za-z0-9_ ]*)$/.exec(before);
+	if (qualified) {
+		// `alias.` completes the columns of that table
+		const owner = qualified[1].startsWith('"') ? qualified[1].slice(1, -1).replace(/""/g, '"') : qualified[1];
+		const table = tableAliases(text, tables).get(owner.toLowerCase()) ?? tables.find(t => t.name.toLowerCase() === owner.toLowerCase());
+		if (!table) return null;
+		const prefix = qualified[2].replace(/^"/, '').toLowerCase();
+		const items = table.columns
+			.filter(col => col.name.toLowerCase().startsWith(prefix))
+			.map<Suggestion>(col => ({ label: col.name, insert: quoteName(col.name), kind: 'column', detail: col.type }));
+		return items.length > 0 ? { from: caret - qualified[2].length, to: caret, items: items.slice(0, MAX_SUGGESTIONS) } : null;
+	}
+
+	const word = /"?[A-Za-z0-9_]*$/.exec(before)?.[0] ?? '';
+	if (!word && !explicit) return null;
+	const prefix = word.replace(/^"/, '').toLowerCase();
+	const from = caret - word.length;
+	const wantsTable = TABLE_CONTEXT.test(before.slice(0, from));
+
+	const tableItems: Suggestion[] = tables.map(t => ({ label: t.name, insert: quoteName(t.name), kind: 'table', detail: t.filePath ? 'attached file' : `${t.columns.length} columns` }));
+	// Columns of the tables the query uses, or of every table before a FROM is written
+	const used = [...new Set(tableAliases(text, tables).values())];
+	const columnItems: Suggestion[] = [];
+	const seen = new Set<string>();
+	for (const table of used.length > 0 ? used : tables) {
+		for (const col of table.columns) {
+			if (seen.has(col.name)) continue;
+			seen.add(col.name);
+			columnItems.push({ label: col.name, insert: quoteName(col.name), kind: 'column', detail: `${col.type} · ${table.name}` });
+		}
+	}
+	const functionItems: Suggestion[] = functions.map(fn => ({ label: fn.name, insert: `${fn.name}(`, kind: 'function', detail: fn.signatures[0] ?? fn.kind }));
+	const keywordItems: Suggestion[] = SQL_KEYWORDS.map(k => ({ label: k.toUpperCase(), insert: k.toUpperCase(), kind: 'keyword' }));
+	const snippetItems: Suggestion[] = SNIPPETS.map(s => ({ label: s.label, insert: s.insert, kind: 'snippet', detail: s.detail }));
+
+	const ordered = wantsTable
+		? [...tableItems, ...functionItems.filter(f => /table/.test(functions.find(fn => fn.name === f.label)?.kind ?? ''))]
+		: [...columnItems, ...keywordItems, ...functionItems, ...tableItems, ...snippetItems];
+	const items = ordered.filter(item => item.label.toLowerCase().startsWith(prefix) && item.label.toLowerCase() !== prefix);
+	return items.length > 0 ? { from, to: caret, items: items.slice(0, MAX_SUGGESTIONS) } : null;
+};
+
+/** Signatures of the function whose argument list the caret is in, for a hint under the editor. */
+export const signatureAt = (text: string, caret: number, functions: SqlFunction[]): SqlFunction | null => {
+	let depth = 0;
+	for (let i = caret - 1; i >= 0; i--) {
+		const ch = text[i];
+		if (ch === ')') depth++;
+		else if (ch === '(') {
+			if (depth === 0) {
+				const name = /([A-Za-z_][A-Za-z0-9_]*)\s*$/.exec(text.slice(0, i))?.[1];
+				return name ? functions.find(fn => fn.name.toLowerCase() === name.toLowerCase()) ?? null : null;
+			}
+			depth--;
+		} else if (ch === ';') {
+			break;
+		}
+	}
+	return null;
+};
+
+const KIND_STYLES: Record<Suggestion['kind'], string> = {
+	table: 'text-amber-300',
+	column: 'text-emerald-300',
+	function: 'text-purple-300',
+	keyword: 'text-blue-300',
+	snippet: 'text-pink-300'
+};
+
+type SuggestionListProps = {
+	items: Suggestion[];
+	active: number;
+	// Viewport position just below the caret
+	position: { left: number; top: number };
+	onPick: (item: Suggestion) => void;
+	onHover: (index: number) => void;
+};
+
+export const SuggestionList: React.FC<SuggestionListProps> = ({ items, active, position, onPick, onHover }) => {
+	const listRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' });
+	}, [active]);
+
+	return (
+		<div
+			ref={listRef}
+			className="fixed z-50 w-96 max-h-64 overflow-y-auto rounded-md border border-gray-600 bg-gray-900 shadow-xl text-sm"
+			style={{ left: position.left, top: position.top }}
+		>
+			{items.map((item, i) => (
+				<div
+					key={`${item.kind}:${item.label}`}
+					// Mouse down would blur the editor before the click lands
+					onMouseDown={(e) => { e.preventDefault(); onPick(item); }}
+					onMouseEnter={() => onHover(i)}
+					className={`flex items-center justify-between gap-3 px-2 py-1 cursor-pointer ${i === active ? 'bg-blue-800' : 'hover:bg-gray-800'}`}
+				>
+					<span className={`truncate font-mono ${KIND_STYLES[item.kind]}`}>{item.label}</span>
+					{item.detail && <span className="truncate text-xs text-gray-400" title={item.detail}>{item.detail}</span>}
+				</div>
+			))}
+		</div>
+	);
+};
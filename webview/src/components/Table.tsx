@@ -1,15 +1,85 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ColumnFilter, FilterPopover } from './FilterPopover';
 
 type TableProps = {
 	columns: string[];
 	rows: any[][];
 	searchTerm?: string;
 	pageSize?: number;
+	// Server-side paging: `rows` is the page starting at `offset` out of `total`
+	offset?: number;
+	total?: number;
+	onPageChange?: (offset: number) => void;
+	// DuckDB type per column; editable through `onTypeChange` when given
+	types?: string[];
+	typeOverrides?: Record<string, string>;
+	onTypeChange?: (column: string, type: string) => void;
+	// In-grid editing; row numbers are absolute positions in the table, not in the page
+	editable?: boolean;
+	onCellEdit?: (row: number, column: number, value: string) => void;
+	onPasteCells?: (row: number, column: number, values: string[][]) => void;
+	onInsertRow?: (index: number) => void;
+	onDeleteRows?: (rows: number[]) => void;
+	// Column filters, at most one per column; the filter row is shown when `onFiltersChange` is given
+	filters?: ColumnFilter[];
+	onFiltersChange?: (filters: ColumnFilter[]) => void;
+	// Sort keys in priority order; headers are clickable when `onSortChange` is given
+	sort?: SortKey[];
+	onSortChange?: (sort: SortKey[]) => void;
 };
 
-export const DataTable: React.FC<TableProps> = ({ columns, rows, searchTerm, pageSize = 100 }) => {
+export type SortKey = { column: string; direction: 'asc' | 'desc' };
+
+type CellPosition = { row: number; column: number };
+
+const TYPE_CHOICES = ['VARCHAR', 'BIGINT', 'DOUBLE', 'BOOLEAN', 'DATE', 'TIMESTAMP'];
+
+/** Splits clipboard text copied from a spreadsheet (tab-separated lines) into a grid. */
+const parseClipboard = (text: string): string[][] => {
+	const lines = text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n');
+	return lines.map(line => line.split('\t'));
+};
+
+/** Short text for a filter shown in the filter row. */
+const describeFilter = (filter: ColumnFilter): string => {
+	const cs = filter.caseSensitive ? ' (Aa)' : '';
+	switch (filter.op) {
+		case 'equals': return `= ${filter.value ?? ''}${cs}`;
+		case 'contains': return `∋ ${filter.value ?? ''}${cs}`;
+		case 'regex': return `~ /${filter.value ?? ''}/${cs}`;
+		case 'between': return `${filter.value || '…'} – ${filter.value2 || '…'}`;
+		case 'in': return `in (${(filter.values ?? []).join(', ')})${cs}`;
+		case 'isNull': return 'is null';
+		case 'notNull': return 'is not null';
+		default: return filter.op;
+	}
+};
+
+/** Display text of a cell; nested JSON values (structs, lists) are shown as JSON. */
+const formatCell = (value: any): string => {
+	if (value == null) return '';
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+};
+
+export const DataTable: React.FC<TableProps> = ({ columns, rows, searchTerm, pageSize = 100, offset = 0, total, onPageChange, types, typeOverrides, onTypeChange, editable, onCellEdit, onPasteCells, onInsertRow, onDeleteRows, filters = [], onFiltersChange, sort = [], onSortChange }) => {
 	const [widths, setWidths] = useState<number[]>(() => columns.map(() => 200));
-	const [currentPage, setCurrentPage] = useState<number>(1);
+	const [active, setActive] = useState<CellPosition | null>(null);
+	const [editing, setEditing] = useState<{ position: CellPosition; value: string } | null>(null);
+	const [selectedRows, setSelectedRows] = useState<number[]>([]);
+	const [openFilter, setOpenFilter] = useState<string | null>(null);
+	// Quick "contains" text typed in the filter row, applied on Enter or blur
+	const [quickFilters, setQuickFilters] = useState<Record<string, string>>({});
+	const gridRef = useRef<HTMLDivElement>(null);
+	// Enter/Escape close the editor, and the blur that follows must not commit a second time
+	const editClosed = useRef<boolean>(false);
+
+	// Selection is per page; a new page or query starts fresh
+	useEffect(() => {
+		setActive(null);
+		setEditing(null);
+		setSelectedRows([]);
+	}, [offset, columns.join('|'), editable]);
 	const resizingCol = useRef<number | null>(null);
 	const startX = useRef<number>(0);
 	const startWidth = useRef<number>(0);
@@ -19,10 +89,6 @@ export const DataTable: React.FC<TableProps> = ({ columns, rows, searchTerm, pag
 		// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, [columns.join('|')]);
 
-	useEffect(() => {
-		setCurrentPage(1); // Reset to first page when data changes
-	}, [rows]);
-
 	const onMouseDown = (e: React.MouseEvent, index: number) => {
 		resizingCol.current = index;
 		startX.current = e.clientX;
@@ -63,7 +129,7 @@ export const DataTable: React.FC<TableProps> = ({ columns, rows, searchTerm, pag
 
 	const highlight = (text: any): JSX.Element => {
 		const s = (searchTerm ?? '').trim();
-		const str = text != null ? String(text) : '';
+		const str = formatCell(text);
 		if (!s) return <>{str}</>;
 		try {
 			const idx = str.toLowerCase().indexOf(s.toLowerCase());
@@ -77,32 +143,172 @@ export const DataTable: React.FC<TableProps> = ({ columns, rows, searchTerm, pag
 		}
 	};
 
+	const startEditing = (position: CellPosition, initial?: string) => {
+		const value = initial ?? formatCell(rows[position.row - offset]?.[position.column]);
+		editClosed.current = false;
+		setActive(position);
+		setEditing({ position, value });
+	};
+
+	const cancelEdit = () => {
+		editClosed.current = true;
+		setEditing(null);
+		gridRef.current?.focus();
+	};
+
+	const commitEdit = (move?: { rows: number; columns: number }) => {
+		if (!editing || editClosed.current) return;
+		editClosed.current = true;
+		const { position, value } = editing;
+		if (value !== formatCell(rows[position.row - offset]?.[position.column])) {
+			onCellEdit?.(position.row, position.column, value);
+		}
+		setEditing(null);
+		if (move) moveActive(position, move.rows, move.columns);
+		gridRef.current?.focus();
+	};
+
+	const moveActive = (from: CellPosition, dRows: number, dColumns: number) => {
+		const row = Math.max(offset, Math.min(offset + rows.length - 1, from.row + dRows));
+		const column = Math.max(0, Math.min(columns.length - 1, from.column + dColumns));
+		setActive({ row, column });
+	};
+
+	const toggleRow = (row: number, e: React.MouseEvent) => {
+		if (e.shiftKey && selectedRows.length > 0) {
+			const anchor = selectedRows[selectedRows.length - 1];
+			const [from, to] = anchor < row ? [anchor, row] : [row, anchor];
+			const range = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+			setSelectedRows(Array.from(new Set([...selectedRows, ...range])));
+		} else if (e.ctrlKey || e.metaKey) {
+			setSelectedRows(selectedRows.includes(row) ? selectedRows.filter(r => r !== row) : [...selectedRows, row]);
+		} else {
+			setSelectedRows(selectedRows.length === 1 && selectedRows[0] === row ? [] : [row]);
+		}
+	};
+
+	/** Cycles a column through ascending, descending and unsorted; shift-click keeps the other keys. */
+	const toggleSort = (column: string, e: React.MouseEvent) => {
+		const current = sort.find(k => k.column === column);
+		const next: SortKey | null = !current ? { column, direction: 'asc' } : current.direction === 'asc' ? { column, direction: 'desc' } : null;
+		if (e.shiftKey) {
+			const keys = current ? sort.map(k => k.column === column ? next : k) : [...sort, next];
+			onSortChange?.(keys.filter((k): k is SortKey => k !== null));
+		} else {
+			onSortChange?.(next ? [next] : []);
+		}
+	};
+
+	const filterFor = (column: string) => filters.find(f => f.column === column);
+
+	const setFilter = (column: string, filter: ColumnFilter | null) => {
+		setOpenFilter(null);
+		setQuickFilters(prev => { const next = { ...prev }; delete next[column]; return next; });
+		const rest = filters.filter(f => f.column !== column);
+		onFiltersChange?.(filter ? [...rest, filter] : rest);
+	};
+
+	const applyQuickFilter = (column: string) => {
+		const text = quickFilters[column];
+		if (text === undefined) return;
+		setFilter(column, text.trim() ? { column, op: 'contains', value: text.trim() } : null);
+	};
+
+	// Keys and clipboard events from the filter row belong to its inputs, not the grid
+	const fromHeader = (e: React.SyntheticEvent) => (e.target as HTMLElement).closest('thead') !== null;
+
+	const onGridKeyDown = (e: React.KeyboardEvent) => {
+		if (!editable || editing || !active || fromHeader(e)) return;
+		if (e.key === 'Enter' || e.key === 'F2') {
+			e.preventDefault();
+			startEditing(active);
+		} else if (e.key === 'Delete' || e.key === 'Backspace') {
+			e.preventDefault();
+			if (formatCell(rows[active.row - offset]?.[active.column]) !== '') onCellEdit?.(active.row, active.column, '');
+		} else if (e.key.startsWith('Arrow')) {
+			e.preventDefault();
+			const [dRows, dColumns] = ({ ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] } as Record<string, number[]>)[e.key] ?? [0, 0];
+			moveActive(active, dRows, dColumns);
+		} else if (e.key === 'Tab') {
+			e.preventDefault();
+			moveActive(active, 0, e.shiftKey ? -1 : 1);
+		} else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+			// Typing replaces the cell, as in a spreadsheet
+			e.preventDefault();
+			startEditing(active, e.key);
+		}
+	};
+
+	const onGridPaste = (e: React.ClipboardEvent) => {
+		if (!editable || editing || !active || fromHeader(e)) return;
+		const text = e.clipboardData.getData('text/plain');
+		if (!text) return;
+		e.preventDefault();
+		onPasteCells?.(active.row, active.column, parseClipboard(text));
+	};
+
+	const onGridCopy = (e: React.ClipboardEvent) => {
+		if (editing || !active || fromHeader(e)) return;
+		e.preventDefault();
+		e.clipboardData.setData('text/plain', formatCell(rows[active.row - offset]?.[active.column]));
+	};
+
 	// Pagination calculations
-	const totalPages = Math.ceil(rows.length / pageSize);
-	const startIndex = (currentPage - 1) * pageSize;
-	const endIndex = startIndex + pageSize;
-	const currentRows = rows.slice(startIndex, endIndex);
+	const totalRows = total ?? rows.length;
+	const totalPages = Math.ceil(totalRows / pageSize);
+	const currentPage = Math.floor(offset / pageSize) + 1;
+	const startIndex = offset;
+	const endIndex = offset + rows.length;
+	const currentRows = rows;
 
 	const goToPage = (page: number) => {
-		setCurrentPage(Math.max(1, Math.min(page, totalPages)));
+		const target = Math.max(1, Math.min(page, totalPages));
+		if (target !== currentPage) onPageChange?.((target - 1) * pageSize);
 	};
 
 	const goToPrevious = () => {
-		setCurrentPage(prev => Math.max(1, prev - 1));
+		goToPage(currentPage - 1);
 	};
 
 	const goToNext = () => {
-		setCurrentPage(prev => Math.min(totalPages, prev + 1));
+		goToPage(currentPage + 1);
 	};
 
 
 
 	return (
 		<div className="relative">
-			<div className="table-container rounded-lg border border-gray-700 bg-black p-2 shadow-lg shadow-black/50 overflow-x-auto overflow-y-auto" style={{ maxHeight: '70vh' }}>
+			{editable && (
+				<div className="flex items-center gap-2 mb-2 text-sm">
+					<button
+						onClick={() => onInsertRow?.(selectedRows.length > 0 ? Math.max(...selectedRows) + 1 : active ? active.row + 1 : totalRows)}
+						className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+					>
+						Insert row
+					</button>
+					<button
+						onClick={() => { onDeleteRows?.([...selectedRows].sort((a, b) => a - b)); setSelectedRows([]); }}
+						disabled={selectedRows.length === 0}
+						className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed text-gray-200 transition-colors"
+					>
+						Delete {selectedRows.length > 1 ? `${selectedRows.length} rows` : 'row'}
+					</button>
+					<span className="text-xs text-gray-500">Double-click or type to edit · paste a copied range into the selected cell · click row numbers to select rows</span>
+				</div>
+			)}
+			<div
+				ref={gridRef}
+				tabIndex={editable ? 0 : undefined}
+				onKeyDown={onGridKeyDown}
+				onPaste={onGridPaste}
+				onCopy={onGridCopy}
+				className="table-container rounded-lg border border-gray-700 bg-black p-2 shadow-lg shadow-black/50 overflow-x-auto overflow-y-auto outline-none"
+				style={{ maxHeight: '70vh' }}
+			>
 				<table className="table w-full text-sm text-left text-gray-300 border-collapse border border-gray-700 shadow-inner" style={{ tableLayout: 'fixed' }}>
 					<thead style={{ position: 'sticky', top: 0, zIndex: 10 }}>
 						<tr className="bg-gray-200 shadow-md shadow-black/60">
+							{editable && <th className="w-12 border border-gray-600 bg-gray-200" style={{ width: 48 }} />}
 							{columns.map((c, i) => (
 								<th
 									key={i}
@@ -117,7 +323,41 @@ export const DataTable: React.FC<TableProps> = ({ columns, rows, searchTerm, pag
 										textOverflow: 'ellipsis'
 									}}
 								>
-									<span className="text-black">{c}</span>
+									{onSortChange ? (
+										<span
+											onClick={(e) => toggleSort(c, e)}
+											className="text-black cursor-pointer hover:underline"
+											title="Click to sort, Shift+click to sort by several columns"
+										>
+											{c}
+											{(() => {
+												const index = sort.findIndex(k => k.column === c);
+												if (index === -1) return null;
+												return (
+													<span className="ml-1 text-blue-700">
+														{sort[index].direction === 'asc' ? '▲' : '▼'}
+														{sort.length > 1 && <sup>{index + 1}</sup>}
+													</span>
+												);
+											})()}
+										</span>
+									) : (
+										<span className="text-black">{c}</span>
+									)}
+									{types?.[i] && !onTypeChange && (
+										<div className="text-[10px] font-mono text-gray-600 truncate" title={types[i]}>{types[i]}</div>
+									)}
+									{types?.[i] && onTypeChange && (
+										<select
+											value={typeOverrides?.[c] ?? ''}
+											onChange={(e) => onTypeChange(c, e.target.value)}
+											className="block max-w-full text-[10px] font-mono text-gray-700 bg-transparent border-none p-0 cursor-pointer"
+											title="Column type"
+										>
+											<option value="">{typeOverrides?.[c] ? 'Auto' : `${types[i]} (auto)`}</option>
+											{TYPE_CHOICES.map(t => <option key={t} value={t}>{t}</option>)}
+										</select>
+									)}
 									<div
 										onMouseDown={(e) => onMouseDown(e, i)}
 										className="absolute top-0 right-0 h-full w-1 cursor-col-resize select-none"
@@ -126,22 +366,99 @@ export const DataTable: React.FC<TableProps> = ({ columns, rows, searchTerm, pag
 								</th>
 							))}
 						</tr>
+						{onFiltersChange && (
+							<tr className="bg-gray-800">
+								{editable && <th className="border border-gray-600" />}
+								{columns.map((c, i) => {
+									const filter = filterFor(c);
+									// The quick input edits plain "contains" filters; others are summarized and edited in the popover
+									const quick = !filter || (filter.op === 'contains' && !filter.caseSensitive);
+									return (
+										<th key={i} className="relative px-1 py-1 border border-gray-600 font-normal" style={{ width: widths[i] }}>
+											<div className="flex items-center gap-1">
+												{quick ? (
+													<input
+														value={quickFilters[c] ?? filter?.value ?? ''}
+														onChange={(e) => setQuickFilters({ ...quickFilters, [c]: e.target.value })}
+														onKeyDown={(e) => { if (e.key === 'Enter') applyQuickFilter(c); }}
+														onBlur={() => applyQuickFilter(c)}
+														placeholder="Filter…"
+														className="min-w-0 flex-1 px-1.5 py-0.5 rounded bg-gray-900 border border-gray-700 text-xs text-gray-100 outline-none focus:ring-1 focus:ring-blue-500"
+													/>
+												) : (
+													<button onClick={() => setOpenFilter(c)} className="min-w-0 flex-1 truncate px-1.5 py-0.5 rounded bg-blue-900/60 text-left text-xs font-mono text-blue-100" title="Edit filter">
+														{describeFilter(filter as ColumnFilter)}
+													</button>
+												)}
+												<button
+													onClick={() => setOpenFilter(openFilter === c ? null : c)}
+													className={`px-1 rounded text-xs ${filter ? 'text-blue-300' : 'text-gray-400'} hover:text-white`}
+													title="Filter options"
+												>
+													▾
+												</button>
+											</div>
+											{openFilter === c && (
+												<FilterPopover
+													column={c}
+													filter={filter}
+													onApply={(f) => setFilter(c, f)}
+													onClear={() => setFilter(c, null)}
+													onClose={() => setOpenFilter(null)}
+												/>
+											)}
+										</th>
+									);
+								})}
+							</tr>
+						)}
 					</thead>
 					<tbody>
-						{currentRows.map((r, ri) => (
-							<tr key={ri} className="bg-black hover:bg-gray-900 shadow-md shadow-black/40 rounded-md">
-								{columns.map((_, ci) => (
-									<td
-										key={ci}
-										className="px-4 py-2 border border-gray-600 shadow-sm shadow-black/30"
-										style={{ width: widths[ci], maxWidth: widths[ci], whiteSpace: 'normal', overflowWrap: 'break-word' }}
-										title={r?.[ci] != null ? String(r[ci]) : ''}
-									>
-										{highlight(r?.[ci])}
-									</td>
-								))}
-							</tr>
-						))}
+						{currentRows.map((r, ri) => {
+							const rowIndex = offset + ri;
+							const rowSelected = selectedRows.includes(rowIndex);
+							return (
+								<tr key={ri} className={`${rowSelected ? 'bg-blue-950' : 'bg-black'} hover:bg-gray-900 shadow-md shadow-black/40 rounded-md`}>
+									{editable && (
+										<td
+											onClick={(e) => toggleRow(rowIndex, e)}
+											className={`px-1 py-2 text-right text-xs border border-gray-600 cursor-pointer select-none ${rowSelected ? 'text-white bg-blue-800' : 'text-gray-500'}`}
+										>
+											{rowIndex + 1}
+										</td>
+									)}
+									{columns.map((_, ci) => {
+										const isActive = editable && active?.row === rowIndex && active.column === ci;
+										const isEditing = editing?.position.row === rowIndex && editing.position.column === ci;
+										return (
+											<td
+												key={ci}
+												onClick={editable ? () => setActive({ row: rowIndex, column: ci }) : undefined}
+												onDoubleClick={editable ? () => startEditing({ row: rowIndex, column: ci }) : undefined}
+												className={`px-4 py-2 border border-gray-600 shadow-sm shadow-black/30 ${isActive ? 'outline outline-2 -outline-offset-2 outline-blue-500' : ''}`}
+												style={{ width: widths[ci], maxWidth: widths[ci], whiteSpace: 'normal', overflowWrap: 'break-word' }}
+												title={formatCell(r?.[ci])}
+											>
+												{isEditing ? (
+													<input
+														autoFocus
+														value={editing.value}
+														onChange={(e) => setEditing({ position: editing.position, value: e.target.value })}
+														onBlur={() => commitEdit()}
+														onKeyDown={(e) => {
+															if (e.key === 'Enter') { e.preventDefault(); commitEdit({ rows: 1, columns: 0 }); }
+															else if (e.key === 'Tab') { e.preventDefault(); commitEdit({ rows: 0, columns: e.shiftKey ? -1 : 1 }); }
+															else if (e.key === 'Escape') { e.preventDefault(); cancelEdit(); }
+														}}
+														className="w-full bg-gray-800 text-white px-1 -mx-1 outline-none"
+													/>
+												) : highlight(r?.[ci])}
+											</td>
+										);
+									})}
+								</tr>
+							);
+						})}
 					</tbody>
 				</table>
 			</div>
@@ -150,7 +467,7 @@ export const DataTable: React.FC<TableProps> = ({ columns, rows, searchTerm, pag
 			{totalPages > 1 && (
 				<div className="flex items-center justify-between mt-4 px-2 bg-black" style={{ position: 'sticky', bottom: 0, zIndex: 5 }}>
 					<div className="text-sm text-gray-400">
-						Showing {startIndex + 1}-{Math.min(endIndex, rows.length)} of {rows.length} records
+						Showing {startIndex + 1}-{endIndex} of {totalRows} records
 					</div>
 					<div className="flex items-center gap-2">
 						<button
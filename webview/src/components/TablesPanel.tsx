@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+
+export type TableSchema = {
+	name: string;
+	// Set for tables attached from other files
+	filePath?: string;
+	columns: Array<{ name: string; type: string }>;
+};
+
+type TablesPanelProps = {
+	tables: TableSchema[];
+	onAttach: () => void;
+	onDetach: (alias: string) => void;
+};
+
+const fileName = (filePath: string) => filePath.split(/[\\/]/).pop() ?? filePath;
+
+export const TablesPanel: React.FC<TablesPanelProps> = ({ tables, onAttach, onDetach }) => {
+	const [expanded, setExpanded] = useState<string | null>(null);
+	const open = tables.find(t => t.name === expanded);
+
+	return (
+		<div className="grid gap-2">
+			<div className="flex flex-wrap items-center gap-2 text-sm">
+				<span className="text-xs uppercase tracking-wide text-gray-400">Tables</span>
+				{tables.map(table => (
+					<span
+						key={table.name}
+						className={`flex items-center rounded-md border ${table.name === expanded ? 'border-blue-500 bg-blue-900/40' : 'border-gray-700 bg-gray-900'}`}
+						title={table.filePath ? `${table.filePath}\n${table.columns.length} columns` : `${table.columns.length} columns`}
+					>
+						<button onClick={() => setExpanded(table.name === expanded ? null : table.name)} className="px-2 py-0.5 font-mono text-gray-200 hover:text-white">
+							{table.name}
+							{table.filePath && <span className="ml-1.5 font-sans text-xs text-gray-500">{fileName(table.filePath)}</span>}
+						</button>
+						{table.filePath && (
+							<button onClick={() => onDetach(table.name)} className="pr-2 text-gray-500 hover:text-red-400" title={`Detach ${table.name}`}>
+								×
+							</button>
+						)}
+					</span>
+				))}
+				<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} onClick={onAttach} className="px-2 py-0.5 rounded-md border border-dashed border-gray-600 text-gray-400 hover:text-white hover:border-gray-400" title="Attach another file, or Shift-drag files from the Explorer onto this editor">
+					+ Attach file
+				</motion.button>
+			</div>
+			{open && (
+				<div className="flex flex-wrap gap-x-4 gap-y-1 p-2 rounded-md border border-gray-700 bg-gray-900 text-xs font-mono">
+					{open.columns.map(col => (
+						<span key={col.name} className="text-gray-200">
+							{col.name} <span className="text-gray-500">{col.type}</span>
+						</span>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+
+export type XmlPathInfo = {
+	path: string;
+	count: number;
+	repeating: boolean;
+	hasChildren: boolean;
+};
+
+export type XmlInfo = {
+	paths: XmlPathInfo[];
+	recordPath: string;
+	childTables: string[];
+};
+
+type XmlPathPickerProps = {
+	info: XmlInfo;
+	onApply: (recordPath: string) => void;
+	onClose: () => void;
+};
+
+export const XmlPathPicker: React.FC<XmlPathPickerProps> = ({ info, onApply, onClose }) => {
+	const [selected, setSelected] = useState<string>(info.recordPath);
+
+	useEffect(() => {
+		setSelected(info.recordPath);
+	}, [info.recordPath]);
+
+	return (
+		<div className="grid gap-4">
+			<p className="text-sm text-gray-400">
+				Pick the element that holds one record per occurrence. Its attributes and text become columns; repeating children become linked tables.
+			</p>
+			<div className="max-h-[50vh] overflow-y-auto rounded-md border border-gray-700 bg-black">
+				{info.paths.map(p => {
+					const segments = p.path.split('/');
+					const isSelected = p.path === selected;
+					return (
+						<button
+							key={p.path}
+							onClick={() => setSelected(p.path)}
+							className={`w-full flex items-center justify-between gap-3 px-3 py-1.5 text-left text-sm font-mono transition-colors ${
+								isSelected ? 'bg-blue-900/60 text-white' : 'text-gray-300 hover:bg-gray-900'
+							}`}
+							style={{ paddingLeft: 12 + (segments.length - 1) * 16 }}
+							title={p.path}
+						>
+							<span className="truncate">{segments[segments.length - 1]}</span>
+							<span className="flex items-center gap-2 text-xs text-gray-500 whitespace-nowrap">
+								{p.repeating && <span className="px-1.5 rounded bg-gray-800 text-gray-300">repeats</span>}
+								×{p.count}
+							</span>
+						</button>
+					);
+				})}
+			</div>
+			{info.childTables.length > 0 && (
+				<div className="text-sm text-gray-400">
+					<div className="mb-1">Linked child tables (join on <code className="text-gray-200">_parent_id = data._row_id</code>):</div>
+					<div className="flex flex-wrap gap-2">
+						{info.childTables.map(t => <code key={t} className="px-2 py-0.5 rounded bg-gray-800 text-gray-200">{t}</code>)}
+					</div>
+				</div>
+			)}
+			<div className="flex justify-end gap-3">
+				<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} onClick={onClose} className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-all duration-200">
+					Cancel
+				</motion.button>
+				<motion.button
+					whileTap={{ scale: 0.95 }}
+					whileHover={{ scale: 1.02 }}
+					disabled={!selected || selected === info.recordPath}
+					onClick={() => onApply(selected)}
+					className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-blue-600 text-white rounded-md font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:from-cyan-600 hover:to-blue-700 transition-all duration-200"
+				>
+					Use as records
+				</motion.button>
+			</div>
+		</div>
+	);
+};
@@ -1,26 +1,70 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import { motion, AnimatePresence } from 'framer-motion';
-import { DataTable } from './components/Table';
-import Dashboard from './components/Dashboard';
+import { DataTable, SortKey } from './components/Table';
+import Dashboard, { ChartData, ChartSpec } from './components/Dashboard';
+import { CsvOptionsPanel, CsvDialect } from './components/CsvOptionsPanel';
+import { SheetTabs, SheetInfo } from './components/SheetTabs';
+import { XmlPathPicker, XmlInfo } from './components/XmlPathPicker';
+import { TablesPanel, TableSchema } from './components/TablesPanel';
+import { ProfilePanel, ColumnProfile } from './components/ProfilePanel';
+import { ExportPanel, ExportOptions } from './components/ExportPanel';
+import { ColumnFilter } from './components/FilterPopover';
+import { ColumnAliasPanel } from './components/ColumnAliasPanel';
+import { SavedQueriesPanel, SavedQuery } from './components/SavedQueriesPanel';
+import { QueryPlanPanel, QueryPlan } from './components/QueryPlanPanel';
+import { ResultExplanationPanel, ResultExplanation } from './components/ResultExplanationPanel';
+import { SuggestionList, CompletionState, SqlFunction, Suggestion, SQL_KEYWORDS, completionsAt, signatureAt } from './components/SqlSuggestions';
 import './index.css';
 
+type AiProviderInfo = {
+	id: string;
+	label: string;
+	models: string[];
+	requiresKey: boolean;
+	hasKey: boolean;
+};
+
 type PageData = {
 	columns: string[];
 	rows: any[][];
 	offset: number;
 	limit: number;
 	total: number;
+	types?: string[];
+	where?: string;
+};
+
+type JsonInfo = {
+	shape: 'array' | 'object' | 'lines';
+	tables: string[];
+	flatten: boolean;
+};
+
+const JSON_SHAPE_LABELS: Record<string, string> = {
+	array: 'JSON array of records',
+	object: 'Single JSON document',
+	lines: 'JSON Lines (one record per line)'
 };
 
 declare const acquireVsCodeApi: () => { postMessage: (msg: any) => void; getState: () => any; setState: (s: any) => void };
 const vscode = acquireVsCodeApi();
 
-const SQL_KEYWORDS = ['select','from','where','and','or','group','by','order','limit','offset','asc','desc','as','join','left','right','inner','outer','on','count','sum','avg','min','max','like','in','between'];
+const isSqlBase = (query: string): boolean => query.trim().replace(/\s+/g, ' ').replace(/;$/, '').toLowerCase() === 'select * from data';
+
+/** Adds a WHERE condition to a query: appended to a plain `select * from data`, otherwise wrapping it. */
+const addFilter = (query: string, condition: string): string => {
+	const base = query.trim().replace(/;+\s*$/, '');
+	if (/^select\s+\*\s+from\s+data$/i.test(base)) return `${base} WHERE ${condition}`;
+	if (/^select\s+\*\s+from\s+data\s+where\s/i.test(base) && !/\b(or|group|order|limit|having|union)\b/i.test(base)) return `${base} AND ${condition}`;
+	return `SELECT * FROM (${base}) AS q WHERE ${condition}`;
+};
 
 const App: React.FC = () => {
 	const [data, setData] = useState<PageData | null>(null);
 	const [search, setSearch] = useState<string>('');
+	const [filters, setFilters] = useState<ColumnFilter[]>([]);
+	const [sort, setSort] = useState<SortKey[]>([]);
 	const [loading, setLoading] = useState<boolean>(true);
 	const [sqlHistory, setSqlHistory] = useState<string[]>(['select * from data']);
 	const [historyIndex, setHistoryIndex] = useState<number>(0);
@@ -38,51 +82,118 @@ const App: React.FC = () => {
 	const [showErrorPopup, setShowErrorPopup] = useState<boolean>(false);
 	const [columns, setColumns] = useState<string[]>([]);
 	const [showGenerateModal, setShowGenerateModal] = useState<boolean>(false);
-	const [provider, setProvider] = useState<'openai' | 'gemini'>('gemini');
+	const [aiProviders, setAiProviders] = useState<AiProviderInfo[]>([]);
+	const [provider, setProvider] = useState<string>('gemini');
+	// A new key typed into the dialog; stored keys stay in the extension
 	const [apiKey, setApiKey] = useState<string>('');
 	const [model, setModel] = useState<string>('gemini-2.5-flash');
 	const [prompt, setPrompt] = useState<string>('');
 	const [aiResponse, setAiResponse] = useState<string>('');
 	const [aiLoading, setAiLoading] = useState<boolean>(false);
+	// Step of a running generation, e.g. a repair attempt
+	const [aiProgress, setAiProgress] = useState<string | null>(null);
+	const [aiRepairs, setAiRepairs] = useState<Array<{ sql: string; error: string }>>([]);
+	// DuckDB's error when the last generated query still fails
+	const [aiSqlError, setAiSqlError] = useState<string | null>(null);
+	const [sampleRows, setSampleRows] = useState<number>(3);
+	const [includeSamples, setIncludeSamples] = useState<boolean>(true);
+	const [showExplanation, setShowExplanation] = useState<boolean>(false);
+	const [explanation, setExplanation] = useState<ResultExplanation | null>(null);
+	const [explanationError, setExplanationError] = useState<string | null>(null);
 	const [showGeminiInstructions, setShowGeminiInstructions] = useState<boolean>(false);
 	const [showDashboard, setShowDashboard] = useState<boolean>(false);
+	const [chart, setChart] = useState<ChartData | null>(null);
+	const [chartError, setChartError] = useState<string | null>(null);
+	const [chartLoading, setChartLoading] = useState<boolean>(false);
+	const [csvDialect, setCsvDialect] = useState<CsvDialect | null>(null);
+	const [showCsvOptions, setShowCsvOptions] = useState<boolean>(false);
+	const [sheets, setSheets] = useState<SheetInfo[]>([]);
+	const [activeSheet, setActiveSheet] = useState<string | undefined>(undefined);
+	const [xmlInfo, setXmlInfo] = useState<XmlInfo | null>(null);
+	const [showXmlPicker, setShowXmlPicker] = useState<boolean>(false);
+	const [jsonInfo, setJsonInfo] = useState<JsonInfo | null>(null);
+	const [tables, setTables] = useState<TableSchema[]>([]);
+	const [functions, setFunctions] = useState<SqlFunction[]>([]);
+	const [completion, setCompletion] = useState<CompletionState | null>(null);
+	const [activeSuggestion, setActiveSuggestion] = useState<number>(0);
+	const [suggestionPos, setSuggestionPos] = useState<{ left: number; top: number }>({ left: 0, top: 0 });
+	const [caret, setCaret] = useState<number>(0);
+	const [dragActive, setDragActive] = useState<boolean>(false);
+	const [showExport, setShowExport] = useState<boolean>(false);
+	const [showProfile, setShowProfile] = useState<boolean>(false);
+	const [profiles, setProfiles] = useState<ColumnProfile[] | null>(null);
+	const [profileError, setProfileError] = useState<string | null>(null);
+	const [showPlan, setShowPlan] = useState<boolean>(false);
+	const [plan, setPlan] = useState<QueryPlan | null>(null);
+	const [planError, setPlanError] = useState<string | null>(null);
+	const [planAnalyze, setPlanAnalyze] = useState<boolean>(false);
+	// SELECTs of the last script, one tab each; the active one is what the grid pages through
+	const [resultTabs, setResultTabs] = useState<Array<{ sql: string; line: number }>>([]);
+	const [activeResult, setActiveResult] = useState<number>(0);
+	const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([]);
+	const [showSavedQueries, setShowSavedQueries] = useState<boolean>(false);
+	const [queryStats, setQueryStats] = useState<{ label: string; elapsedMs: number; rows?: number } | null>(null);
+	const [columnAliases, setColumnAliases] = useState<{ columns: string[]; aliases: Record<string, string> } | null>(null);
+	const [showAliases, setShowAliases] = useState<boolean>(false);
+	const [typeOverrides, setTypeOverrides] = useState<Record<string, string> | null>(null);
 	const textAreaRef = useRef<HTMLTextAreaElement>(null);
 
-	const loadApiKey = (prov: 'openai' | 'gemini') => {
-		const savedKey = localStorage.getItem(`flatFileReader_${prov}_apiKey`);
-		if (savedKey) {
-			setApiKey(savedKey);
-		}
-	};
+	const selectedProvider = aiProviders.find(p => p.id === provider);
 
-	const saveApiKey = (key: string, prov: 'openai' | 'gemini') => {
-		if (key.trim()) {
-			localStorage.setItem(`flatFileReader_${prov}_apiKey`, key.trim());
+	useEffect(() => {
+		// Keys from older versions lived in localStorage; hand them to secret storage once
+		for (const prov of ['openai', 'gemini']) {
+			const savedKey = localStorage.getItem(`flatFileReader_${prov}_apiKey`);
+			if (savedKey) {
+				vscode.postMessage({ type: 'setAiKey', provider: prov, apiKey: savedKey });
+				localStorage.removeItem(`flatFileReader_${prov}_apiKey`);
+			}
 		}
-	};
+		vscode.postMessage({ type: 'requestAiProviders' });
+	}, []);
 
 	useEffect(() => {
-		loadApiKey(provider);
-	}, [provider]);
+		// Fall back to a configured provider and model when the settings change
+		if (aiProviders.length === 0) return;
+		const current = aiProviders.find(p => p.id === provider) ?? aiProviders[0];
+		if (current.id !== provider) setProvider(current.id);
+		if (current.models.length > 0 && !current.models.includes(model)) setModel(current.models[0]);
+	}, [aiProviders, provider]);
 
-	useEffect(() => {
-		if (apiKey.trim()) {
-			saveApiKey(apiKey, provider);
-		}
-	}, [apiKey, provider]);
+	// Query, search, filters and sort behind the rows on screen, which may differ from what is typed
+	const [shownQuery, setShownQuery] = useState<{ sql: string; search: string; filters: ColumnFilter[]; sort: SortKey[] }>({ sql: 'select * from data', search: '', filters: [], sort: [] });
+	const [canEdit, setCanEdit] = useState<boolean>(false);
 
-	const requestPage = (offset: number, s?: string, q?: string) => {
+	const requestPage = (offset: number, s?: string, q?: string, f?: ColumnFilter[], o?: SortKey[]) => {
 		setLoading(true);
 		setError(null);
-		vscode.postMessage({ type: 'requestPage', offset, search: s ?? search, sql: q ?? sql });
+		vscode.postMessage({ type: 'requestPage', offset, search: s ?? search, sql: q ?? shownQuery.sql, filters: f ?? filters, sort: o ?? sort });
+	};
+
+	// Re-fetches the visible page in place after an edit, undo or redo
+	const refreshPage = useRef<() => void>(() => undefined);
+	refreshPage.current = () => {
+		vscode.postMessage({ type: 'requestPage', offset: data?.offset ?? 0, search: shownQuery.search, sql: shownQuery.sql, filters: shownQuery.filters, sort: shownQuery.sort });
 	};
 
+	// Puts formatted SQL in the editor as an undoable change
+	const replaceSql = useRef<(text: string) => void>(() => undefined);
+	replaceSql.current = addToHistory;
+	// The chart spec last asked for; answers to earlier picks are dropped
+	const chartRequest = useRef<string>('');
+
 		useEffect(() => {
 			const handler = (event: MessageEvent) => {
 				const msg = event.data;
 				console.log('Webview received message:', msg?.type, msg);
 				if (msg?.type === 'page') {
 					setData(msg.data);
+					const shownFilters: ColumnFilter[] = Array.isArray(msg.filters) ? msg.filters : [];
+					const shownSort: SortKey[] = Array.isArray(msg.sort) ? msg.sort : [];
+					setShownQuery({ sql: msg.sql || 'select * from data', search: msg.search ?? '', filters: shownFilters, sort: shownSort });
+					// Reloads that change the columns come back unfiltered and unsorted
+					setFilters(shownFilters);
+					setSort(shownSort);
 					setLoading(false);
 				} else if (msg?.type === 'columns') {
 					if (Array.isArray(msg.columns)) setColumns(msg.columns);
@@ -96,25 +207,114 @@ const App: React.FC = () => {
 						setShowErrorPopup(false);
 						setError(null);
 					}, 3000);
+				} else if (msg?.type === 'xmlInfo') {
+					setXmlInfo({ paths: msg.paths ?? [], recordPath: msg.recordPath ?? '', childTables: msg.childTables ?? [] });
+				} else if (msg?.type === 'profile') {
+					setProfiles(Array.isArray(msg.columns) ? msg.columns : []);
+				} else if (msg?.type === 'queryPlan') {
+					setPlan(msg.plan);
+				} else if (msg?.type === 'queryPlanError') {
+					setPlanError(msg.message ?? 'Explain failed');
+				} else if (msg?.type === 'formattedSql') {
+					if (typeof msg.sql === 'string' && msg.sql.trim()) replaceSql.current(msg.sql);
+				} else if (msg?.type === 'chartData' || msg?.type === 'chartError') {
+					if (JSON.stringify(msg.spec) !== chartRequest.current) return;
+					setChartLoading(false);
+					if (msg.type === 'chartData') {
+						setChart(msg.chart);
+						setChartError(null);
+					} else {
+						setChartError(msg.message ?? 'Aggregation failed');
+					}
+				} else if (msg?.type === 'profileError') {
+					setProfileError(msg.message ?? 'Profiling failed');
+				} else if (msg?.type === 'tables') {
+					setTables(Array.isArray(msg.tables) ? msg.tables : []);
+				} else if (msg?.type === 'functions') {
+					setFunctions(Array.isArray(msg.functions) ? msg.functions : []);
+				} else if (msg?.type === 'jsonInfo') {
+					setJsonInfo({ shape: msg.shape, tables: msg.tables ?? [], flatten: !!msg.flatten });
+				} else if (msg?.type === 'columnAliases') {
+					setColumnAliases({ columns: msg.columns ?? [], aliases: msg.aliases ?? {} });
+				} else if (msg?.type === 'columnTypes') {
+					setTypeOverrides(msg.overrides ?? {});
+				} else if (msg?.type === 'sheets') {
+					setSheets(Array.isArray(msg.sheets) ? msg.sheets : []);
+					setActiveSheet(msg.active);
+				} else if (msg?.type === 'csvDialect') {
+					setCsvDialect(msg.dialect ?? null);
+				} else if (msg?.type === 'aiProviders') {
+					setAiProviders(Array.isArray(msg.providers) ? msg.providers : []);
+					setSampleRows(typeof msg.sampleRows === 'number' ? msg.sampleRows : 0);
+				} else if (msg?.type === 'aiExplanation') {
+					setExplanation(msg.explanation);
+					setAiProgress(null);
+				} else if (msg?.type === 'aiExplanationError') {
+					setExplanationError(msg.message ?? 'Explaining the result failed');
+					setAiProgress(null);
+				} else if (msg?.type === 'aiProgress') {
+					setAiProgress(msg.message ?? null);
 				} else if (msg?.type === 'aiResponse') {
 					setAiResponse(msg.response);
+					setAiRepairs(Array.isArray(msg.repairs) ? msg.repairs : []);
+					setAiSqlError(msg.error ?? null);
+					setAiProgress(null);
 					setAiLoading(false);
 				} else if (msg?.type === 'aiError') {
 					setAiResponse('Error: ' + (msg.message ?? 'Unknown error'));
+					setAiRepairs([]);
+					setAiSqlError(null);
+					setAiProgress(null);
 					setAiLoading(false);
-				} else if (msg?.type === 'saveComplete' || msg?.type === 'saveError') {
-					// Ignore save messages as edit mode is removed
-					console.log('Save message received, ignoring');
+				} else if (msg?.type === 'editable') {
+					setCanEdit(!!msg.editable);
+				} else if (msg?.type === 'documentChanged' || msg?.type === 'saveComplete') {
+					refreshPage.current();
+				} else if (msg?.type === 'savedQueries') {
+					setSavedQueries(Array.isArray(msg.queries) ? msg.queries : []);
+				} else if (msg?.type === 'scriptResults') {
+					setResultTabs(Array.isArray(msg.results) ? msg.results : []);
+					setActiveResult(0);
+				} else if (msg?.type === 'queryStats') {
+					setQueryStats({ label: msg.label, elapsedMs: msg.elapsedMs, rows: msg.rows });
+				} else if (msg?.type === 'queryCancelled') {
+					// The previous rows stay on screen, matching the query they came from
+					setLoading(false);
+					setError(msg.message ?? 'Stopped waiting for the query');
+					setShowErrorPopup(true);
+					setTimeout(() => {
+						setShowErrorPopup(false);
+						setError(null);
+					}, 3000);
+				} else if (msg?.type === 'editError') {
+					// Unlike load errors, a rejected edit keeps the current rows on screen
+					setError(msg.message ?? 'Edit failed');
+					setShowErrorPopup(true);
+					setTimeout(() => {
+						setShowErrorPopup(false);
+						setError(null);
+					}, 3000);
 				}
 			};
 			window.addEventListener('message', handler);
 			// Request initial data with default SQL
 			requestPage(0, undefined, sql);
+			vscode.postMessage({ type: 'requestCsvDialect' });
+			vscode.postMessage({ type: 'requestSheets' });
+			vscode.postMessage({ type: 'requestColumnTypes' });
+			vscode.postMessage({ type: 'requestXmlInfo' });
+			vscode.postMessage({ type: 'requestJsonInfo' });
+			vscode.postMessage({ type: 'requestTables' });
+			vscode.postMessage({ type: 'requestEditable' });
+			vscode.postMessage({ type: 'requestSavedQueries' });
+			vscode.postMessage({ type: 'requestFunctions' });
 			return () => window.removeEventListener('message', handler);
 		}, []);
 
 
 
+	const functionNames = useMemo(() => new Set(functions.map(fn => fn.name.toLowerCase())), [functions]);
+
 	// Lightweight SQL highlighter
 	const highlightedSql = useMemo(() => {
 		const tokens = sql.split(/(\s+|,|\(|\))/g).filter(t => t !== undefined);
@@ -123,10 +323,11 @@ const App: React.FC = () => {
 			if (/^'.*'$/.test(t) || /^".*"$/.test(t)) return `<span class="tok-str">${t.replace(/</g,'&lt;')}</span>`;
 			if (/^\d+(\.\d+)?$/.test(t)) return `<span class="tok-num">${t}</span>`;
 			if (SQL_KEYWORDS.includes(t.toLowerCase())) return `<span class="tok-key">${t}</span>`;
+			if (tokens.slice(i + 1).find(n => !/^\s+$/.test(n)) === '(' && functionNames.has(t.toLowerCase())) return `<span class="tok-fn">${t}</span>`;
 			// column or other
 			return `<span class="tok-col">${t.replace(/</g,'&lt;')}</span>`;
 		}).join('');
-	}, [sql]);
+	}, [sql, functionNames]);
 
 	// Compute caret position to place suggestions near the cursor
 	const getCaretOffset = (ta: HTMLTextAreaElement): {left: number, top: number} => {
@@ -154,15 +355,42 @@ const App: React.FC = () => {
 		return { left: Math.max(8, left), top: Math.max(8, top) };
 	};
 
-	// Suggestions disabled
-	const openSuggestionsForWord = () => { return; };
+	// Completions for the word at the caret; `explicit` lists everything that fits even before typing
+	const openSuggestionsForWord = (explicit = false) => {
+		const ta = textAreaRef.current;
+		if (!ta) return;
+		const position = ta.selectionStart ?? 0;
+		setCaret(position);
+		const next = ta.selectionStart === ta.selectionEnd ? completionsAt(ta.value, position, tables, functions, explicit) : null;
+		setCompletion(next);
+		setActiveSuggestion(0);
+		if (next) {
+			const offset = getCaretOffset(ta);
+			const rect = ta.getBoundingClientRect();
+			setSuggestionPos({ left: rect.left + offset.left, top: rect.top + offset.top });
+		}
+	};
 
-	const applySuggestion = (_item: string) => {
-		return;
+	const applySuggestion = (item: Suggestion) => {
+		if (!completion) return;
+		const text = sql.slice(0, completion.from) + item.insert + sql.slice(completion.to);
+		const position = completion.from + item.insert.length;
+		addToHistory(text);
+		setCompletion(null);
+		setCaret(position);
+		// Move the caret once React has put the new text in the editor
+		requestAnimationFrame(() => {
+			const ta = textAreaRef.current;
+			if (!ta) return;
+			ta.focus();
+			ta.setSelectionRange(position, position);
+		});
 	};
 
+	const signature = useMemo(() => signatureAt(sql, caret, functions), [sql, caret, functions]);
+
 	const handleGenerate = () => {
-		if (!apiKey.trim()) {
+		if (selectedProvider?.requiresKey && !selectedProvider.hasKey && !apiKey.trim()) {
 			setAiResponse('Please enter your API key.');
 			setAiLoading(false);
 			return;
@@ -175,30 +403,204 @@ const App: React.FC = () => {
 
 		setAiLoading(true);
 		setAiResponse('');
+		setAiRepairs([]);
+		setAiSqlError(null);
+		setAiProgress(null);
 		vscode.postMessage({
 			type: 'generateAI',
 			provider,
-			apiKey: apiKey.trim(),
+			apiKey: apiKey.trim() || undefined,
 			model,
-			prompt: prompt.trim()
+			prompt: prompt.trim(),
+			includeSamples
 		});
+		setApiKey('');
+	};
+
+	const reimportCsv = (dialect: CsvDialect | null) => {
+		setShowCsvOptions(false);
+		setLoading(true);
+		setError(null);
+		vscode.postMessage({ type: 'setCsvDialect', dialect, search, sql: shownQuery.sql });
+	};
+
+	// Types can only be overridden while looking at the `data` table itself
+	const isBaseQuery = isSqlBase(shownQuery.sql);
+
+	// Rows can be edited while the plain table is shown, so page positions are table positions
+	const editable = canEdit && isSqlBase(shownQuery.sql) && !shownQuery.search.trim() && shownQuery.filters.length === 0 && shownQuery.sort.length === 0;
+
+	const changeColumnType = (column: string, columnType: string) => {
+		setLoading(true);
+		setError(null);
+		vscode.postMessage({ type: 'setColumnType', column, columnType, search, sql: shownQuery.sql });
+	};
+
+	const applyXmlRecordPath = (recordPath: string) => {
+		setShowXmlPicker(false);
+		setLoading(true);
+		setError(null);
+		vscode.postMessage({ type: 'setXmlRecordPath', recordPath, search, sql: shownQuery.sql });
+	};
+
+	const toggleJsonFlatten = () => {
+		if (!jsonInfo) return;
+		setLoading(true);
+		setError(null);
+		vscode.postMessage({ type: 'setJsonFlatten', flatten: !jsonInfo.flatten, search, sql: shownQuery.sql });
+	};
+
+	const openAliases = () => {
+		setColumnAliases(null);
+		setShowAliases(true);
+		vscode.postMessage({ type: 'requestColumnAliases' });
+	};
+
+	const applyAliases = (aliases: Record<string, string>) => {
+		setShowAliases(false);
+		setLoading(true);
+		setError(null);
+		vscode.postMessage({ type: 'setColumnAliases', aliases, search, sql: shownQuery.sql });
+	};
+
+	const exportResults = (options: ExportOptions) => {
+		setShowExport(false);
+		vscode.postMessage({ type: 'export', search: shownQuery.search, sql: shownQuery.sql, filters: shownQuery.filters, sort: shownQuery.sort, options });
+	};
+
+	const openProfile = () => {
+		setShowProfile(true);
+		setProfiles(null);
+		setProfileError(null);
+		vscode.postMessage({ type: 'requestProfile', search: shownQuery.search, sql: shownQuery.sql, filters: shownQuery.filters });
+	};
+
+	// Explains what is typed in the editor, which may not have been run yet
+	const explainSql = (analyze: boolean) => {
+		setShowPlan(true);
+		setPlanAnalyze(analyze);
+		setPlan(null);
+		setPlanError(null);
+		vscode.postMessage({ type: 'explainQuery', sql, analyze });
+	};
+
+	const openDashboard = () => {
+		setShowDashboard(true);
+		setChart(null);
+		setChartError(null);
+	};
+
+	const requestChart = (spec: ChartSpec) => {
+		chartRequest.current = JSON.stringify(spec);
+		setChartLoading(true);
+		vscode.postMessage({ type: 'requestChartData', spec, search: shownQuery.search, sql: shownQuery.sql, filters: shownQuery.filters });
+	};
+
+	const applyProfileFilter = (condition: string) => {
+		const filtered = addFilter(shownQuery.sql, condition);
+		addToHistory(filtered);
+		setResultTabs([]);
+		setShowProfile(false);
+		requestPage(0, search, filtered);
+	};
+
+	const changeFilters = (next: ColumnFilter[]) => {
+		setFilters(next);
+		requestPage(0, search, shownQuery.sql, next);
+	};
+
+	const changeSort = (next: SortKey[]) => {
+		setSort(next);
+		requestPage(0, search, shownQuery.sql, shownQuery.filters, next);
+	};
+
+	// Moves the compiled filter conditions into the SQL so they can be edited further
+	const moveFiltersToSql = (where: string) => {
+		const filtered = addFilter(shownQuery.sql, where);
+		addToHistory(filtered);
+		setResultTabs([]);
+		requestPage(0, search, filtered, [], shownQuery.sort);
+	};
+
+	// Files Shift-dragged from the Explorer arrive as a URI list, one per line
+	const handleDrop = (e: React.DragEvent) => {
+		e.preventDefault();
+		setDragActive(false);
+		const list = e.dataTransfer.getData('application/vnd.code.uri-list') || e.dataTransfer.getData('text/uri-list');
+		const uris = list.split(/\r?\n/).map(u => u.trim()).filter(u => u && !u.startsWith('#'));
+		if (uris.length > 0) {
+			vscode.postMessage({ type: 'attachFile', uris });
+		}
+	};
+
+	const selectSheet = (name: string) => {
+		setLoading(true);
+		setError(null);
+		vscode.postMessage({ type: 'selectSheet', name, search, sql: shownQuery.sql });
+	};
+
+	const applySheetOptions = (name: string, headerRow: number, range: string) => {
+		setLoading(true);
+		setError(null);
+		vscode.postMessage({ type: 'setSheetOptions', name, headerRow, range, search, sql: shownQuery.sql });
 	};
 
 	// Simplified handlers without edit mode checks
+	// The editor may hold a script of several statements, so it is split and run by the extension
+	const runSql = (text: string) => {
+		// Filters and sort keys name the columns of the query they were made on
+		const sameQuery = text.trim() === shownQuery.sql.trim();
+		setLoading(true);
+		setError(null);
+		vscode.postMessage({ type: 'runScript', sql: text, search, filters: sameQuery ? filters : [], sort: sameQuery ? sort : [] });
+	};
+
 	const handleExecuteQuery = () => {
-		requestPage(0, search, sql);
+		runSql(sql);
+	};
+
+	// Only column statistics of the rows on screen are sent, not the rows
+	const explainResult = () => {
+		setShowExplanation(true);
+		setExplanation(null);
+		setExplanationError(null);
+		setAiProgress(null);
+		vscode.postMessage({ type: 'explainResult', provider, model, sql: shownQuery.sql, search: shownQuery.search, filters: shownQuery.filters, includeSamples });
+	};
+
+	const runSavedQuery = (query: SavedQuery) => {
+		addToHistory(query.sql);
+		runSql(query.sql);
+	};
+
+	const selectResult = (index: number) => {
+		setActiveResult(index);
+		requestPage(0, search, resultTabs[index].sql, [], []);
 	};
 
 	const handleReset = () => {
 		addToHistory('select * from data');
-		requestPage(0, '', 'select * from data');
+		setResultTabs([]);
+		requestPage(0, '', 'select * from data', [], []);
 	};
 
 	return (
-		<div className="h-screen w-screen p-4 gap-4 flex flex-col overflow-x-hidden bg-black">
+		<div
+			className="h-screen w-screen p-4 gap-4 flex flex-col overflow-x-hidden bg-black"
+			onDragOver={(e) => { e.preventDefault(); setDragActive(true); }}
+			onDragLeave={(e) => { if (e.currentTarget === e.target) setDragActive(false); }}
+			onDrop={handleDrop}
+		>
+			{dragActive && (
+				<div className="pointer-events-none fixed inset-0 z-40 grid place-items-center bg-blue-950/60 border-4 border-dashed border-blue-500 text-lg text-white">
+					Drop files to attach them as tables
+				</div>
+			)}
 			<div className="mt-4 grid gap-3">
 				<div className="flex items-center justify-between">
-					<label className="text-sm uppercase tracking-wide text-gray-300 font-medium">SQL (table: data)</label>
+					<label className="text-sm uppercase tracking-wide text-gray-300 font-medium">
+						SQL ({tables.length > 1 ? `tables: ${tables.map(t => t.name).join(', ')}` : 'table: data'})
+					</label>
 					<div className="flex items-center gap-3">
 						<input
 							className="px-4 py-2 rounded-lg border border-gray-600 bg-black outline-none focus:bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 max-w-[280px] w-full shadow-sm text-gray-100"
@@ -207,8 +609,8 @@ const App: React.FC = () => {
 							onChange={(e) => setSearch(e.target.value)}
 							onKeyDown={(e) => { if (e.key === 'Enter') requestPage(0); }}
 						/>
-						<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-lg bg-gradient-to-r from-emerald-500 to-teal-600 text-white hover:from-emerald-600 hover:to-teal-700 transition-all duration-200 shadow-md font-medium whitespace-nowrap" onClick={() => vscode.postMessage({ type: 'export', search, sql })}>
-							Export CSV
+						<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-lg bg-gradient-to-r from-emerald-500 to-teal-600 text-white hover:from-emerald-600 hover:to-teal-700 transition-all duration-200 shadow-md font-medium whitespace-nowrap" onClick={() => setShowExport(true)}>
+							Export
 						</motion.button>
 					</div>
 				</div>
@@ -219,8 +621,32 @@ const App: React.FC = () => {
 						className="w-full min-h-[80px] rounded-md border border-gray-700 bg-gray-900 p-3 font-mono text-sm text-gray-100 outline-none resize-y transition-all duration-200 relative z-10 shadow-inner focus:bg-gray-800 focus:ring-2 focus:ring-blue-500"
 						value={sql}
 						onChange={(e) => { addToHistory(e.target.value); openSuggestionsForWord(); }}
+						onClick={() => { setCompletion(null); setCaret(textAreaRef.current?.selectionStart ?? 0); }}
+						onBlur={() => setCompletion(null)}
+						onKeyUp={(e) => { if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') setCaret(textAreaRef.current?.selectionStart ?? 0); }}
 						onKeyDown={(e) => {
-							if (e.ctrlKey && e.key === 'z') {
+							if (completion) {
+								if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+									e.preventDefault();
+									const step = e.key === 'ArrowDown' ? 1 : -1;
+									setActiveSuggestion((activeSuggestion + step + completion.items.length) % completion.items.length);
+									return;
+								}
+								if (e.key === 'Enter' || e.key === 'Tab') {
+									e.preventDefault();
+									applySuggestion(completion.items[activeSuggestion]);
+									return;
+								}
+								if (e.key === 'Escape') {
+									e.preventDefault();
+									setCompletion(null);
+									return;
+								}
+							}
+							if (e.ctrlKey && e.key === ' ') {
+								e.preventDefault();
+								openSuggestionsForWord(true);
+							} else if (e.ctrlKey && e.key === 'z') {
 								e.preventDefault();
 								if (historyIndex > 0) {
 									setHistoryIndex(historyIndex - 1);
@@ -234,6 +660,27 @@ const App: React.FC = () => {
 						}}
 					/>
 				</div>
+				{completion && (
+					<SuggestionList
+						items={completion.items}
+						active={activeSuggestion}
+						position={suggestionPos}
+						onPick={applySuggestion}
+						onHover={setActiveSuggestion}
+					/>
+				)}
+				{signature && (
+					<div className="text-xs font-mono text-gray-400 truncate" title={signature.description}>
+						{signature.signatures.join('  |  ')}
+					</div>
+				)}
+				{tables.length > 0 && (
+					<TablesPanel
+						tables={tables}
+						onAttach={() => vscode.postMessage({ type: 'attachFile' })}
+						onDetach={(alias) => vscode.postMessage({ type: 'detachFile', alias })}
+					/>
+				)}
 				<div className="flex flex-wrap gap-3 sm:flex-nowrap mt-2">
 					<motion.button
 						whileTap={{ scale: 0.95 }}
@@ -243,6 +690,12 @@ const App: React.FC = () => {
 					>
 						Execute Query
 					</motion.button>
+					<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gray-700 text-gray-100 hover:bg-gray-600 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={() => vscode.postMessage({ type: 'formatSql', sql })}>
+						Format SQL
+					</motion.button>
+					<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gray-700 text-gray-100 hover:bg-gray-600 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={() => explainSql(false)}>
+						Explain
+					</motion.button>
 					<motion.button
 						whileTap={{ scale: 0.95 }}
 						whileHover={{ scale: 1.02 }}
@@ -254,10 +707,55 @@ const App: React.FC = () => {
 					<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gradient-to-r from-purple-500 to-pink-600 text-white hover:from-purple-600 hover:to-pink-700 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={() => setShowGenerateModal(true)}>
 						Generate SQL with AI
 					</motion.button>
-					<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gradient-to-r from-orange-500 to-red-600 text-white hover:from-orange-600 hover:to-red-700 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={() => setShowDashboard(true)}>
+					<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gradient-to-r from-orange-500 to-red-600 text-white hover:from-orange-600 hover:to-red-700 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={openDashboard}>
 						Visualize
 					</motion.button>
+					<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gradient-to-r from-sky-600 to-indigo-600 text-white hover:from-sky-700 hover:to-indigo-700 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={openProfile}>
+						Profile
+					</motion.button>
+					<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gradient-to-r from-fuchsia-500 to-purple-600 text-white hover:from-fuchsia-600 hover:to-purple-700 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={explainResult}>
+						Explain with AI
+					</motion.button>
+					<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gray-700 text-white hover:bg-gray-600 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={() => setShowSavedQueries(true)}>
+						Saved Queries{savedQueries.length > 0 ? ` (${savedQueries.length})` : ''}
+					</motion.button>
+					<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gray-700 text-white hover:bg-gray-600 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={openAliases} title="Give columns friendly names for queries">
+						Column Names
+					</motion.button>
+					{csvDialect && (
+						<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gray-700 text-white hover:bg-gray-600 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={() => setShowCsvOptions(true)}>
+							Import Options
+						</motion.button>
+					)}
+					{xmlInfo && (
+						<motion.button whileTap={{ scale: 0.95 }} whileHover={{ scale: 1.02 }} className="px-4 py-2 rounded-md bg-gray-700 text-white hover:bg-gray-600 transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none" onClick={() => setShowXmlPicker(true)}>
+							Record Path
+						</motion.button>
+					)}
+					{jsonInfo && (
+						<motion.button
+							whileTap={{ scale: 0.95 }}
+							whileHover={{ scale: 1.02 }}
+							className={`px-4 py-2 rounded-md text-white transition-all duration-200 shadow-md font-medium flex-1 sm:flex-none ${jsonInfo.flatten ? 'bg-blue-700 hover:bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+							onClick={toggleJsonFlatten}
+							title="Expand nested objects into dotted columns and arrays into one row per element"
+						>
+							{jsonInfo.flatten ? 'Flattened' : 'Flatten Nested'}
+						</motion.button>
+					)}
 				</div>
+				{jsonInfo && (
+					<div className="mt-2 text-xs text-gray-400">
+						{JSON_SHAPE_LABELS[jsonInfo.shape] ?? jsonInfo.shape}
+						{jsonInfo.tables.length > 1 && <> · tables: {jsonInfo.tables.map(t => <code key={t} className="ml-1 px-1.5 rounded bg-gray-800 text-gray-200">{t}</code>)}</>}
+					</div>
+				)}
+				{queryStats && (
+					<div className="mt-1 text-xs text-gray-500">
+						{queryStats.label} took {(queryStats.elapsedMs / 1000).toFixed(2)} s
+						{queryStats.rows !== undefined && <> · {queryStats.rows.toLocaleString()} rows</>}
+					</div>
+				)}
 				{/* no top error banner; error is shown in table area now */}
 			</div>
 
@@ -298,21 +796,22 @@ const App: React.FC = () => {
 									<select
 										value={provider}
 										onChange={(e) => {
-											setProvider(e.target.value as 'openai' | 'gemini');
-											setModel(e.target.value === 'gemini' ? 'gemini-2.5-flash' : 'gpt-4o-mini');
+											setProvider(e.target.value);
+											setModel(aiProviders.find(p => p.id === e.target.value)?.models[0] ?? '');
+											setApiKey('');
 										}}
 										className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
 									>
-										<option value="gemini">Google Gemini (Free)</option>
-										<option value="openai">OpenAI</option>
+										{aiProviders.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
 									</select>
+									<p className="mt-1 text-xs text-gray-500">Add self-hosted OpenAI-compatible servers such as Ollama or vLLM with the flatFileReader.ai.providers setting.</p>
 								</div>
 
 								{/* API Key Input */}
 								<div className="mb-4">
 									<div className="flex items-center justify-between mb-2">
 										<label className="block text-sm font-medium text-gray-300">
-											{provider === 'openai' ? 'OpenAI API Key' : 'Gemini API Key'}
+											{selectedProvider?.label ?? provider} API Key{selectedProvider && !selectedProvider.requiresKey ? ' (optional)' : ''}
 										</label>
 										{provider === 'gemini' && (
 											<motion.button
@@ -325,37 +824,44 @@ const App: React.FC = () => {
 											</motion.button>
 										)}
 									</div>
-									<input
-										type="password"
-										value={apiKey}
-										onChange={(e) => setApiKey(e.target.value)}
-										className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-										placeholder={provider === 'openai' ? 'sk-...' : 'AIza...'}
-									/>
+									<div className="flex items-center gap-2">
+										<input
+											type="password"
+											value={apiKey}
+											onChange={(e) => setApiKey(e.target.value)}
+											className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+											placeholder={selectedProvider?.hasKey ? 'Saved in secret storage; type to replace' : provider === 'openai' ? 'sk-...' : provider === 'gemini' ? 'AIza...' : ''}
+										/>
+										{selectedProvider?.hasKey && (
+											<button
+												onClick={() => vscode.postMessage({ type: 'setAiKey', provider, apiKey: '' })}
+												className="px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-red-700 text-gray-200 whitespace-nowrap"
+											>
+												Forget key
+											</button>
+										)}
+									</div>
 								</div>
 
 								{/* Model Selection */}
 								<div className="mb-4">
 									<label className="block text-sm font-medium text-gray-300 mb-2">Model</label>
-									<select
-										value={model}
-										onChange={(e) => setModel(e.target.value)}
-										className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-									>
-										{provider === 'openai' ? (
-											<>
-												<option value="gpt-4o-mini">GPT-4o-mini</option>
-												<option value="gpt-4o">GPT-4o</option>
-												<option value="gpt-3.5-turbo">GPT-3.5-turbo</option>
-											</>
-										) : (
-											<>
-												<option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
-												<option value="gemini-1.5-flash">Gemini 1.5 Flash</option>
-												<option value="gemini-1.5-pro">Gemini 1.5 Pro</option>
-											</>
-										)}
-									</select>
+									{selectedProvider && selectedProvider.models.length === 0 ? (
+										<input
+											value={model}
+											onChange={(e) => setModel(e.target.value)}
+											className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+											placeholder="Model name, e.g. llama3.1"
+										/>
+									) : (
+										<select
+											value={model}
+											onChange={(e) => setModel(e.target.value)}
+											className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+										>
+											{(selectedProvider?.models ?? []).map(m => <option key={m} value={m}>{m}</option>)}
+										</select>
+									)}
 								</div>
 
 								{/* Prompt Input */}
@@ -370,6 +876,18 @@ const App: React.FC = () => {
 									/>
 								</div>
 
+								{/* What is sent besides the prompt */}
+								<div className="mb-4 text-xs text-gray-400">
+									{sampleRows > 0 ? (
+										<label className="flex items-center gap-2">
+											<input type="checkbox" checked={includeSamples} onChange={(e) => setIncludeSamples(e.target.checked)} />
+											Send {sampleRows} sample row{sampleRows === 1 ? '' : 's'} per table with the column names and types
+										</label>
+									) : (
+										<span>Only column names and types are sent; sample rows are off in the flatFileReader.ai.sampleRows setting.</span>
+									)}
+								</div>
+
 								{/* Submit Button */}
 								<motion.button
 									whileTap={{ scale: 0.95 }}
@@ -384,7 +902,7 @@ const App: React.FC = () => {
 												<circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
 												<path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v8H4z"></path>
 											</svg>
-											Generating...
+											{aiProgress ?? 'Generating...'}
 										</div>
 									) : (
 										'Generate SQL'
@@ -398,12 +916,27 @@ const App: React.FC = () => {
 										<pre className="text-sm text-gray-100 overflow-x-auto bg-gray-900 p-3 rounded-md font-mono">
 											{aiResponse}
 										</pre>
+										{aiSqlError && (
+											<div className="mt-2 text-xs text-amber-300 whitespace-pre-wrap">
+												DuckDB still rejects this query{aiRepairs.length > 0 ? ` after ${aiRepairs.length} repair attempt${aiRepairs.length === 1 ? '' : 's'}` : ''}: {aiSqlError}
+											</div>
+										)}
+										{aiRepairs.length > 0 && (
+											<details className="mt-2 text-xs text-gray-400">
+												<summary className="cursor-pointer">{aiRepairs.length} earlier attempt{aiRepairs.length === 1 ? '' : 's'} failed and {aiRepairs.length === 1 ? 'was' : 'were'} sent back to the model</summary>
+												{aiRepairs.map((repair, i) => (
+													<div key={i} className="mt-2">
+														<pre className="overflow-x-auto bg-gray-900 p-2 rounded-md font-mono text-gray-300">{repair.sql}</pre>
+														<div className="mt-1 text-red-300 whitespace-pre-wrap">{repair.error}</div>
+													</div>
+												))}
+											</details>
+										)}
 										<motion.button
 											whileTap={{ scale: 0.95 }}
 											whileHover={{ scale: 1.02 }}
 											className="mt-2 px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-all duration-200"
 											onClick={() => {
-												setSql(aiResponse);
 												addToHistory(aiResponse);
 												setShowGenerateModal(false);
 											}}
@@ -509,6 +1042,361 @@ const App: React.FC = () => {
 				)}
 			</AnimatePresence>
 
+			{/* CSV Import Options Modal */}
+			<AnimatePresence>
+				{showCsvOptions && csvDialect && (
+					<motion.div
+						initial={{ opacity: 0 }}
+						animate={{ opacity: 1 }}
+						exit={{ opacity: 0 }}
+						className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+						onClick={() => setShowCsvOptions(false)}
+					>
+						<motion.div
+							initial={{ scale: 0.95, opacity: 0 }}
+							animate={{ scale: 1, opacity: 1 }}
+							exit={{ scale: 0.95, opacity: 0 }}
+							className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg shadow-xl"
+							onClick={(e) => e.stopPropagation()}
+						>
+							<div className="p-6">
+								<div className="flex items-center justify-between mb-6">
+									<h2 className="text-lg font-semibold text-white">CSV Import Options</h2>
+									<motion.button
+										whileTap={{ scale: 0.95 }}
+										className="text-gray-400 hover:text-white"
+										onClick={() => setShowCsvOptions(false)}
+									>
+										<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+											<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+										</svg>
+									</motion.button>
+								</div>
+								<CsvOptionsPanel
+									dialect={csvDialect}
+									onApply={(dialect) => reimportCsv(dialect)}
+									onAutoDetect={() => reimportCsv(null)}
+									onClose={() => setShowCsvOptions(false)}
+								/>
+							</div>
+						</motion.div>
+					</motion.div>
+				)}
+			</AnimatePresence>
+
+			{/* Saved Queries Sidebar */}
+			<AnimatePresence>
+				{showSavedQueries && (
+					<motion.div
+						initial={{ opacity: 0 }}
+						animate={{ opacity: 1 }}
+						exit={{ opacity: 0 }}
+						className="fixed inset-0 z-50 flex justify-end bg-black/50"
+						onClick={() => setShowSavedQueries(false)}
+					>
+						<motion.div
+							initial={{ x: 40, opacity: 0 }}
+							animate={{ x: 0, opacity: 1 }}
+							exit={{ x: 40, opacity: 0 }}
+							className="w-full max-w-sm h-full bg-gray-900 border-l border-gray-700 shadow-xl"
+							onClick={(e) => e.stopPropagation()}
+						>
+							<SavedQueriesPanel
+								queries={savedQueries}
+								currentSql={sql}
+								onSave={(query) => vscode.postMessage({ type: 'saveQuery', ...query })}
+								onRun={(query) => { setShowSavedQueries(false); runSavedQuery(query); }}
+								onUpdate={(id, changes) => vscode.postMessage({ type: 'updateSavedQuery', id, changes })}
+								onDuplicate={(id) => vscode.postMessage({ type: 'duplicateSavedQuery', id })}
+								onDelete={(id) => vscode.postMessage({ type: 'deleteSavedQuery', id })}
+								onExport={() => vscode.postMessage({ type: 'exportSavedQueries' })}
+								onImport={() => vscode.postMessage({ type: 'importSavedQueries' })}
+								onClose={() => setShowSavedQueries(false)}
+							/>
+						</motion.div>
+					</motion.div>
+				)}
+			</AnimatePresence>
+
+			{/* Column Aliases Modal */}
+			<AnimatePresence>
+				{showAliases && (
+					<motion.div
+						initial={{ opacity: 0 }}
+						animate={{ opacity: 1 }}
+						exit={{ opacity: 0 }}
+						className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+						onClick={() => setShowAliases(false)}
+					>
+						<motion.div
+							initial={{ scale: 0.95, opacity: 0 }}
+							animate={{ scale: 1, opacity: 1 }}
+							exit={{ scale: 0.95, opacity: 0 }}
+							className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg shadow-xl"
+							onClick={(e) => e.stopPropagation()}
+						>
+							<div className="p-6">
+								<div className="flex items-center justify-between mb-6">
+									<h2 className="text-lg font-semibold text-white">Column Names</h2>
+									<motion.button
+										whileTap={{ scale: 0.95 }}
+										className="text-gray-400 hover:text-white"
+										onClick={() => setShowAliases(false)}
+									>
+										<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+											<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+										</svg>
+									</motion.button>
+								</div>
+								{columnAliases ? (
+									<ColumnAliasPanel columns={columnAliases.columns} aliases={columnAliases.aliases} onApply={applyAliases} onClose={() => setShowAliases(false)} />
+								) : (
+									<div className="text-sm text-gray-500">Loading columns…</div>
+								)}
+							</div>
+						</motion.div>
+					</motion.div>
+				)}
+			</AnimatePresence>
+
+			{/* Export Modal */}
+			<AnimatePresence>
+				{showExport && (
+					<motion.div
+						initial={{ opacity: 0 }}
+						animate={{ opacity: 1 }}
+						exit={{ opacity: 0 }}
+						className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+						onClick={() => setShowExport(false)}
+					>
+						<motion.div
+							initial={{ scale: 0.95, opacity: 0 }}
+							animate={{ scale: 1, opacity: 1 }}
+							exit={{ scale: 0.95, opacity: 0 }}
+							className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg shadow-xl"
+							onClick={(e) => e.stopPropagation()}
+						>
+							<div className="p-6">
+								<div className="flex items-center justify-between mb-6">
+									<h2 className="text-lg font-semibold text-white">Export Results</h2>
+									<motion.button
+										whileTap={{ scale: 0.95 }}
+										className="text-gray-400 hover:text-white"
+										onClick={() => setShowExport(false)}
+									>
+										<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+											<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+										</svg>
+									</motion.button>
+								</div>
+								<ExportPanel onExport={exportResults} onClose={() => setShowExport(false)} />
+							</div>
+						</motion.div>
+					</motion.div>
+				)}
+			</AnimatePresence>
+
+			{/* XML Record Path Modal */}
+			<AnimatePresence>
+				{showXmlPicker && xmlInfo && (
+					<motion.div
+						initial={{ opacity: 0 }}
+						animate={{ opacity: 1 }}
+						exit={{ opacity: 0 }}
+						className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+						onClick={() => setShowXmlPicker(false)}
+					>
+						<motion.div
+							initial={{ scale: 0.95, opacity: 0 }}
+							animate={{ scale: 1, opacity: 1 }}
+							exit={{ scale: 0.95, opacity: 0 }}
+							className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg shadow-xl"
+							onClick={(e) => e.stopPropagation()}
+						>
+							<div className="p-6">
+								<div className="flex items-center justify-between mb-6">
+									<h2 className="text-lg font-semibold text-white">XML Record Path</h2>
+									<motion.button
+										whileTap={{ scale: 0.95 }}
+										className="text-gray-400 hover:text-white"
+										onClick={() => setShowXmlPicker(false)}
+									>
+										<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+											<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+										</svg>
+									</motion.button>
+								</div>
+								<XmlPathPicker
+									info={xmlInfo}
+									onApply={applyXmlRecordPath}
+									onClose={() => setShowXmlPicker(false)}
+								/>
+							</div>
+						</motion.div>
+					</motion.div>
+				)}
+			</AnimatePresence>
+
+			{/* Column Profile Modal */}
+			<AnimatePresence>
+				{showProfile && (
+					<motion.div
+						initial={{ opacity: 0 }}
+						animate={{ opacity: 1 }}
+						exit={{ opacity: 0 }}
+						className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+						onClick={() => setShowProfile(false)}
+					>
+						<motion.div
+							initial={{ scale: 0.95, opacity: 0 }}
+							animate={{ scale: 1, opacity: 1 }}
+							exit={{ scale: 0.95, opacity: 0 }}
+							className="w-full max-w-6xl max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg shadow-xl"
+							onClick={(e) => e.stopPropagation()}
+						>
+							<div className="p-6">
+								<div className="flex items-center justify-between mb-6">
+									<div>
+										<h2 className="text-lg font-semibold text-white">Column Profile</h2>
+										<p className="text-xs text-gray-400">Computed over the current query, search and filters. Click a value to filter on it.</p>
+									</div>
+									<motion.button
+										whileTap={{ scale: 0.95 }}
+										className="text-gray-400 hover:text-white"
+										onClick={() => setShowProfile(false)}
+									>
+										<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+											<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+										</svg>
+									</motion.button>
+								</div>
+								{profileError && <div className="text-red-400 text-sm">{profileError}</div>}
+								{!profileError && !profiles && (
+									<div className="flex items-center gap-3 text-gray-400 text-sm">
+										Profiling columns…
+										<button onClick={() => vscode.postMessage({ type: 'cancelQuery' })} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">Stop waiting</button>
+									</div>
+								)}
+								{!profileError && profiles && <ProfilePanel profiles={profiles} onFilter={applyProfileFilter} />}
+							</div>
+						</motion.div>
+					</motion.div>
+				)}
+			</AnimatePresence>
+
+			{/* Result Explanation Modal */}
+			<AnimatePresence>
+				{showExplanation && (
+					<motion.div
+						initial={{ opacity: 0 }}
+						animate={{ opacity: 1 }}
+						exit={{ opacity: 0 }}
+						className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+						onClick={() => setShowExplanation(false)}
+					>
+						<motion.div
+							initial={{ scale: 0.95, opacity: 0 }}
+							animate={{ scale: 1, opacity: 1 }}
+							exit={{ scale: 0.95, opacity: 0 }}
+							className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg shadow-xl"
+							onClick={(e) => e.stopPropagation()}
+						>
+							<div className="p-6">
+								<div className="flex items-center justify-between mb-6">
+									<div>
+										<h2 className="text-lg font-semibold text-white">Explain Result</h2>
+										<p className="text-xs text-gray-400">
+											{selectedProvider?.label ?? provider} · {model}. Sends the query, the table schemas and column statistics of the result{includeSamples && sampleRows > 0 ? ' with frequent values' : ''}; no rows.
+										</p>
+									</div>
+									<motion.button
+										whileTap={{ scale: 0.95 }}
+										className="text-gray-400 hover:text-white"
+										onClick={() => setShowExplanation(false)}
+									>
+										<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+											<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+										</svg>
+									</motion.button>
+								</div>
+								{explanationError && <div className="text-red-400 text-sm whitespace-pre-wrap">{explanationError}</div>}
+								{!explanationError && !explanation && (
+									<div className="flex items-center gap-3 text-gray-400 text-sm">
+										{aiProgress ?? 'Summarizing the result…'}
+										{/* Only the statistics query can be stopped; the model request runs to its timeout */}
+										{!aiProgress && <button onClick={() => vscode.postMessage({ type: 'cancelQuery' })} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">Stop waiting</button>}
+									</div>
+								)}
+								{!explanationError && explanation && (
+									<ResultExplanationPanel
+										explanation={explanation}
+										onInsert={(text) => { addToHistory(text); setShowExplanation(false); }}
+										onRun={(text) => { addToHistory(text); runSql(text); setShowExplanation(false); }}
+									/>
+								)}
+							</div>
+						</motion.div>
+					</motion.div>
+				)}
+			</AnimatePresence>
+
+			{/* Query Plan Modal */}
+			<AnimatePresence>
+				{showPlan && (
+					<motion.div
+						initial={{ opacity: 0 }}
+						animate={{ opacity: 1 }}
+						exit={{ opacity: 0 }}
+						className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+						onClick={() => setShowPlan(false)}
+					>
+						<motion.div
+							initial={{ scale: 0.95, opacity: 0 }}
+							animate={{ scale: 1, opacity: 1 }}
+							exit={{ scale: 0.95, opacity: 0 }}
+							className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg shadow-xl"
+							onClick={(e) => e.stopPropagation()}
+						>
+							<div className="p-6">
+								<div className="flex items-center justify-between mb-6">
+									<div>
+										<h2 className="text-lg font-semibold text-white">Query Plan</h2>
+										<p className="text-xs text-gray-400">
+											{planAnalyze ? 'EXPLAIN ANALYZE ran the query to measure each operator.' : 'Estimated plan; Explain Analyze runs the query to add actual rows and timings.'}
+										</p>
+									</div>
+									<div className="flex items-center gap-3">
+										<button
+											onClick={() => explainSql(!planAnalyze)}
+											className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200"
+										>
+											{planAnalyze ? 'Estimate only' : 'Explain Analyze'}
+										</button>
+										<motion.button
+											whileTap={{ scale: 0.95 }}
+											className="text-gray-400 hover:text-white"
+											onClick={() => setShowPlan(false)}
+										>
+											<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+												<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+											</svg>
+										</motion.button>
+									</div>
+								</div>
+								{planError && <div className="text-red-400 text-sm whitespace-pre-wrap">{planError}</div>}
+								{!planError && !plan && (
+									<div className="flex items-center gap-3 text-gray-400 text-sm">
+										{planAnalyze ? 'Running the query…' : 'Planning the query…'}
+										<button onClick={() => vscode.postMessage({ type: 'cancelQuery' })} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">Stop waiting</button>
+									</div>
+								)}
+								{!planError && plan && <QueryPlanPanel key={`${plan.analyzed}`} plan={plan} />}
+							</div>
+						</motion.div>
+					</motion.div>
+				)}
+			</AnimatePresence>
+
 			{/* Dashboard Modal */}
 			<AnimatePresence>
 				{showDashboard && (
@@ -539,13 +1427,25 @@ const App: React.FC = () => {
 										</svg>
 									</motion.button>
 								</div>
-								<Dashboard data={data?.rows || []} columns={data?.columns || []} onClose={() => setShowDashboard(false)} />
+								<Dashboard
+									columns={data?.columns || []}
+									types={data?.types || []}
+									chart={chart}
+									error={chartError}
+									loading={chartLoading}
+									onRequest={requestChart}
+									onClose={() => setShowDashboard(false)}
+								/>
 							</div>
 						</motion.div>
 					</motion.div>
 				)}
 			</AnimatePresence>
 
+			{sheets.length > 0 && (
+				<SheetTabs sheets={sheets} active={activeSheet} onSelect={selectSheet} onApplyOptions={applySheetOptions} />
+			)}
+
 			<div className="flex-1 min-h-0 mt-2 overflow-auto rounded-md border border-gray-800">
 				<AnimatePresence mode="wait">
 					{loading && (
@@ -556,15 +1456,59 @@ const App: React.FC = () => {
 									<path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"></path>
 								</svg>
 								<div>Loading data…</div>
+								<button onClick={() => vscode.postMessage({ type: 'cancelQuery' })} className="ml-2 px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">
+									Stop waiting
+								</button>
 							</div>
 						</motion.div>
 					)}
 					{!loading && data && (
 						<motion.div key="table" initial={{ opacity: 0, y: 6 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -6 }} className="h-full">
+							{resultTabs.length > 1 && (
+								<div className="flex flex-wrap gap-1 mb-2 border-b border-gray-700">
+									{resultTabs.map((tab, i) => (
+										<button
+											key={i}
+											onClick={() => selectResult(i)}
+											title={tab.sql}
+											className={`px-3 py-1.5 text-sm rounded-t-md border border-b-0 transition-colors ${
+												i === activeResult ? 'border-blue-500 bg-blue-900/40 text-white' : 'border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800'
+											}`}
+										>
+											Result {i + 1} <span className="text-xs text-gray-500">line {tab.line}</span>
+										</button>
+									))}
+								</div>
+							)}
+							{data.where && (
+								<div className="flex items-center gap-2 mb-2 px-3 py-2 rounded-md border border-gray-700 bg-gray-900 text-xs">
+									<span className="text-gray-400 whitespace-nowrap">WHERE</span>
+									<code className="flex-1 min-w-0 truncate font-mono text-gray-200" title={data.where}>{data.where}</code>
+									<button onClick={() => navigator.clipboard.writeText(data.where ?? '')} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 whitespace-nowrap">Copy</button>
+									<button onClick={() => moveFiltersToSql(data.where ?? '')} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 whitespace-nowrap" title="Append these conditions to the SQL and clear the filters">Add to SQL</button>
+									<button onClick={() => changeFilters([])} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 whitespace-nowrap">Clear filters</button>
+								</div>
+							)}
 							<DataTable
 								columns={data.columns}
 								rows={data.rows}
 								searchTerm={search}
+								offset={data.offset}
+								total={data.total}
+								pageSize={data.limit}
+								onPageChange={(offset) => requestPage(offset)}
+								types={data.types}
+								typeOverrides={typeOverrides ?? undefined}
+								onTypeChange={typeOverrides && isBaseQuery ? changeColumnType : undefined}
+								editable={editable}
+								onCellEdit={(row, column, value) => vscode.postMessage({ type: 'editCells', changes: [{ row, column, value }] })}
+								onPasteCells={(row, column, values) => vscode.postMessage({ type: 'pasteCells', row, column, values })}
+								onInsertRow={(index) => vscode.postMessage({ type: 'insertRows', index, count: 1 })}
+								onDeleteRows={(rows) => vscode.postMessage({ type: 'deleteRows', rows })}
+								filters={shownQuery.filters}
+								onFiltersChange={changeFilters}
+								sort={shownQuery.sort}
+								onSortChange={changeSort}
 							/>
 						</motion.div>
 					)}